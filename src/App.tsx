@@ -1,42 +1,61 @@
 import React, { useState } from "react";
 import "./App.css";
-import { Layout, Modal, Form, Input, Select, Button, message } from "antd";
+import { Layout, Modal, Form, Input, Select, Button, AutoComplete } from "antd";
 import NavBar from "./components/NavBar";
 import MarketView from "./pages/MarketView";
 import MyNFTs from "./pages/MyNFTs";
 import AuctionView from "./pages/AuctionView";
+import AuctionDetail from "./pages/AuctionDetail";
+import NFTFusion from "./pages/NFTFusion";
+import NFTDetail from "./pages/NFTDetail";
+import Profile from "./pages/Profile";
+import Collections from "./pages/Collections";
+import CollectionDetail from "./pages/CollectionDetail";
+import Analytics from "./pages/Analytics";
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
-import { AptosClient } from "aptos";
-
-const client = new AptosClient("https://fullnode.testnet.aptoslabs.com/v1");
-const marketplaceAddr = "0x75cfca25296896f907a457e20a245f9af304cb1e48723d864e17f2e08ad93159";
+import { useNetwork } from "./context/NetworkContext";
+import { useTransactions } from "./context/TransactionContext";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { queryKeys } from "./services/queryCache";
+import { MintNFTArgs } from "./services/marketplaceClient";
+import { useQuery } from "./hooks/useQuery";
+import { useModuleFunctions } from "./hooks/useModuleFunctions";
+import { sameAddress } from "./utils/address";
 
 function App() {
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const { execute } = useTransactions();
+  const { account } = useWallet();
   const [isModalVisible, setIsModalVisible] = useState(false);
+  const hasFunction = useModuleFunctions();
+  // Older deployments mint without collections; the form leaves the field out.
+  const canMintIntoCollection = hasFunction("mint_nft_in_collection");
+
+  // The minter's own collections, offered as suggestions in the mint form.
+  const { data: collections } = useQuery(
+    isModalVisible && hasFunction("get_all_collections") ? queryKeys.collections(marketplaceAddr) : null,
+    () => marketplace.getAllCollections()
+  );
+  const myCollectionNames = (collections ?? [])
+    .filter((collection) => sameAddress(collection.creator, account?.address))
+    .map((collection) => ({ value: collection.name }));
 
   const handleMintNFTClick = () => setIsModalVisible(true);
 
-  const handleMintNFT = async (values: { name: string; description: string; uri: string; rarity: number }) => {
+  const handleMintNFT = async (values: MintNFTArgs) => {
+    const collection = values.collection?.trim();
     try {
-      const nameVector = Array.from(new TextEncoder().encode(values.name));
-      const descriptionVector = Array.from(new TextEncoder().encode(values.description));
-      const uriVector = Array.from(new TextEncoder().encode(values.uri));
-
-      const entryFunctionPayload = {
-        type: "entry_function_payload",
-        function: `${marketplaceAddr}::NFTMarketplace::mint_nft`,
-        type_arguments: [],
-        arguments: [nameVector, descriptionVector, uriVector, values.rarity],
-      };
-
-      const txnResponse = await (window as any).aptos.signAndSubmitTransaction(entryFunctionPayload);
-      await client.waitForTransaction(txnResponse.hash);
-
-      message.success("NFT minted successfully!");
+      await execute(
+        `Mint "${values.name}"${collection ? ` into ${collection}` : ""}`,
+        (signer) => marketplace.mintNft(signer, { ...values, collection }),
+        [
+          ...(account ? [queryKeys.owner(marketplaceAddr, account.address)] : []),
+          queryKeys.collections(marketplaceAddr),
+        ]
+      );
       setIsModalVisible(false);
     } catch (error) {
       console.error("Error minting NFT:", error);
-      message.error("Failed to mint NFT.");
     }
   };
 
@@ -46,9 +65,16 @@ function App() {
         <NavBar onMintNFTClick={handleMintNFTClick} />
         
         <Routes>
-          <Route path="/" element={<MarketView marketplaceAddr={marketplaceAddr} />} />
+          <Route path="/" element={<MarketView />} />
           <Route path="/my-nfts" element={<MyNFTs />} />
-          <Route path="/auctions" element={<AuctionView marketplaceAddr={marketplaceAddr} />} />
+          <Route path="/auctions" element={<AuctionView />} />
+          <Route path="/auctions/:id" element={<AuctionDetail />} />
+          <Route path="/fusion" element={<NFTFusion />} />
+          <Route path="/nft/:id" element={<NFTDetail />} />
+          <Route path="/profile/:address" element={<Profile />} />
+          <Route path="/collections" element={<Collections />} />
+          <Route path="/collections/:id" element={<CollectionDetail />} />
+          <Route path="/analytics" element={<Analytics />} />
         </Routes>
 
         <Modal
@@ -75,6 +101,15 @@ function App() {
                 <Select.Option value={4}>Epic</Select.Option>
               </Select>
             </Form.Item>
+            {canMintIntoCollection && (
+              <Form.Item
+                label="Collection"
+                name="collection"
+                extra="Optional. Pick one of your collections or type a new name to start one."
+              >
+                <AutoComplete options={myCollectionNames} filterOption placeholder="No collection" />
+              </Form.Item>
+            )}
             <Form.Item>
               <Button type="primary" htmlType="submit">
                 Mint NFT
@@ -0,0 +1,24 @@
+import React from "react";
+import { Tag, Tooltip, Typography } from "antd";
+import { formatCountdown, isAuctionEnded, isEndingSoon, timeLeftMs } from "../utils/countdown";
+
+const { Text } = Typography;
+
+interface AuctionCountdownProps {
+  endTime: number; // Unix seconds
+  now: number; // Chain time in Unix ms, see useChainNow
+}
+
+const AuctionCountdown: React.FC<AuctionCountdownProps> = ({ endTime, now }) => (
+  <Tooltip title={new Date(endTime * 1000).toLocaleString()}>
+    {isAuctionEnded(endTime, now) ? (
+      <Tag>Ended</Tag>
+    ) : (
+      <Text type={isEndingSoon(endTime, now) ? "danger" : undefined} strong={isEndingSoon(endTime, now)}>
+        Ends in {formatCountdown(timeLeftMs(endTime, now))}
+      </Text>
+    )}
+  </Tooltip>
+);
+
+export default AuctionCountdown;
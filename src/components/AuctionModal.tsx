@@ -0,0 +1,131 @@
+import React, { useState } from "react";
+import { Alert, Button, DatePicker, Input, Modal, Typography, message } from "antd";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import moment from 'moment';
+import { NFT } from "../services/marketplaceClient";
+import { useNetwork } from "../context/NetworkContext";
+import { useTransactions } from "../context/TransactionContext";
+import { describeTransactionError } from "../services/marketplaceErrors";
+import { queryKeys } from "../services/queryCache";
+import { parseAptInput } from "../utils/amount";
+
+const { Text } = Typography;
+
+interface AuctionModalProps {
+  nft: NFT | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+const AuctionModal: React.FC<AuctionModalProps> = ({ nft, open, onClose }) => {
+  const { account } = useWallet();
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const { execute } = useTransactions();
+  const [auctionStartingPrice, setAuctionStartingPrice] = useState<string>("");
+  const [auctionEndTime, setAuctionEndTime] = useState<moment.Moment | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [txError, setTxError] = useState<string | null>(null);
+
+  const parsedStartingPrice = auctionStartingPrice ? parseAptInput(auctionStartingPrice) : null;
+
+  const reset = () => {
+    setAuctionStartingPrice("");
+    setAuctionEndTime(null);
+    setTxError(null);
+  };
+
+  const handleCancel = () => {
+    reset();
+    onClose();
+  };
+
+  const handleConfirmAuction = () => {
+    if (!nft || !parsedStartingPrice?.ok || !auctionEndTime) return;
+    createAuction(nft.id, parsedStartingPrice.octas, auctionEndTime);
+  };
+
+  const createAuction = async (nftId: number, startingPriceOctas: bigint, endTime: moment.Moment) => {
+    if (!account) {
+      message.error("Please connect your wallet to create an auction.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setTxError(null);
+    try {
+      const endTimeUnix = endTime.unix();
+
+      await execute(
+        `Create auction for NFT #${nftId}`,
+        (signer) => marketplace.createAuction(signer, nftId, startingPriceOctas, endTimeUnix),
+        [
+          queryKeys.nft(marketplaceAddr, nftId),
+          queryKeys.owner(marketplaceAddr, account.address),
+          queryKeys.auctions(marketplaceAddr),
+        ]
+      );
+
+      reset();
+      onClose();
+    } catch (error) {
+      console.error("Error creating auction:", error);
+      setTxError(describeTransactionError(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="Create Auction"
+      open={open}
+      destroyOnClose
+      onCancel={handleCancel}
+      footer={[
+        <Button key="cancel" onClick={handleCancel}>
+          Cancel
+        </Button>,
+        <Button
+          key="confirm"
+          type="primary"
+          onClick={handleConfirmAuction}
+          disabled={!parsedStartingPrice?.ok || !auctionEndTime}
+          loading={isSubmitting}
+        >
+          Create Auction
+        </Button>,
+      ]}
+    >
+      {nft && (
+        <>
+          <p><strong>NFT ID:</strong> {nft.id}</p>
+          <p><strong>Name:</strong> {nft.name}</p>
+          <p><strong>Description:</strong> {nft.description}</p>
+          <p><strong>Rarity:</strong> {nft.rarity}</p>
+
+          <Input
+            inputMode="decimal"
+            placeholder="Enter starting price in APT"
+            value={auctionStartingPrice}
+            onChange={(e) => setAuctionStartingPrice(e.target.value)}
+            status={parsedStartingPrice && !parsedStartingPrice.ok ? "error" : undefined}
+            suffix="APT"
+            style={{ marginTop: 10, marginBottom: 10 }}
+          />
+          {parsedStartingPrice && !parsedStartingPrice.ok && (
+            <Text type="danger" style={{ display: "block", marginBottom: 10 }}>{parsedStartingPrice.error}</Text>
+          )}
+          <DatePicker
+            showTime
+            placeholder="Select auction end time"
+            onChange={(value) => setAuctionEndTime(value ? moment(value.toDate()) : null)}
+            style={{ width: '100%' }}
+          />
+          {txError && <Alert type="error" showIcon message={txError} style={{ marginTop: 10 }} />}
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default AuctionModal;
@@ -0,0 +1,57 @@
+import React from "react";
+import { Alert, Button, Card, List } from "antd";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { useNetwork } from "../context/NetworkContext";
+import { useChainNow } from "../context/ChainClockContext";
+import { useQuery } from "../hooks/useQuery";
+import { useSettleAuction } from "../hooks/useSettleAuction";
+import { queryKeys } from "../services/queryCache";
+import { formatApt } from "../utils/amount";
+import { settlementAction, settlementDescriptions, settlementLabels } from "../utils/settlement";
+
+// Ended auctions the connected account created or won that haven't been
+// settled yet, shown at the top of My Collection.
+const AuctionsNeedingAction: React.FC = () => {
+  const { account } = useWallet();
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const now = useChainNow();
+  const { settle, settlingId, canSettle } = useSettleAuction();
+  const { data: auctions } = useQuery([...queryKeys.auctions(marketplaceAddr), "all"], () => marketplace.getAllAuctions());
+
+  const pending = (auctions ?? [])
+    .map((auction) => ({ auction, action: settlementAction(auction, account?.address, now) }))
+    .filter(({ action }) => action !== null);
+  if (!canSettle || pending.length === 0) return null;
+
+  return (
+    <Card title="Auctions needing your action" style={{ width: "100%", maxWidth: 900, marginTop: 20, textAlign: "left" }}>
+      <Alert
+        type="info"
+        showIcon
+        style={{ marginBottom: 16 }}
+        message="These auctions have ended. Settle them to move the NFT and the winning bid."
+      />
+      <List
+        dataSource={pending}
+        rowKey={({ auction }) => auction.id}
+        renderItem={({ auction, action }) => (
+          <List.Item
+            actions={[
+              <Button type="primary" loading={settlingId === auction.id} onClick={() => settle(auction, action!)}>
+                {settlementLabels[action!]}
+              </Button>,
+            ]}
+          >
+            <List.Item.Meta
+              avatar={<img alt={auction.nftDetails.name} src={auction.nftDetails.uri} style={{ width: 48, height: 48, objectFit: "cover" }} />}
+              title={`${auction.nftDetails.name} · ${formatApt(auction.currentBid)}`}
+              description={settlementDescriptions[action!]}
+            />
+          </List.Item>
+        )}
+      />
+    </Card>
+  );
+};
+
+export default AuctionsNeedingAction;
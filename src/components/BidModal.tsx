@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Alert, Button, Input, Modal, Space, Typography } from "antd";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { Auction } from "../services/marketplaceClient";
+import { useNetwork } from "../context/NetworkContext";
+import { useTransactions } from "../context/TransactionContext";
+import { useChainNow } from "../context/ChainClockContext";
+import { describeBidError } from "../services/marketplaceErrors";
+import { useTransactionPreview } from "../hooks/useTransactionPreview";
+import { queryKeys } from "../services/queryCache";
+import TransactionPreview from "./TransactionPreview";
+import AuctionCountdown from "./AuctionCountdown";
+import { formatApt, parseAptInput } from "../utils/amount";
+import { isAuctionEnded } from "../utils/countdown";
+import { bidBlockedReason, minimumBid, quickBids, validateBid } from "../utils/bidRules";
+import { octasToApt } from "../utils/codec";
+
+const { Text } = Typography;
+
+interface BidModalProps {
+  auction: Auction | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+const BidModal: React.FC<BidModalProps> = ({ auction, open, onClose }) => {
+  const { account } = useWallet();
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const { execute } = useTransactions();
+  const now = useChainNow();
+  const [bidAmount, setBidAmount] = useState<string>("");
+  const [isBidding, setIsBidding] = useState(false);
+  const [bidTxError, setBidTxError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setBidAmount("");
+      setBidTxError(null);
+    }
+  }, [open]);
+
+  const ended = auction ? isAuctionEnded(auction.endTime, now) : false;
+  const minBidOctas = auction ? minimumBid(auction) : null;
+  const bidBlocked = auction ? bidBlockedReason(auction, account?.address) : null;
+  const parsedBid = bidAmount ? parseAptInput(bidAmount) : null;
+  const bidError =
+    parsedBid && !parsedBid.ok
+      ? parsedBid.error
+      : parsedBid?.ok && auction
+        ? validateBid(auction, parsedBid.octas, account?.address)
+        : null;
+
+  const bidOctas = parsedBid?.ok && !bidError ? parsedBid.octas : null;
+  const bidPayload = useMemo(
+    () => (open && auction && bidOctas !== null ? marketplace.placeBidPayload(auction.id, bidOctas) : null),
+    [open, auction, bidOctas, marketplace]
+  );
+  const bidPreview = useTransactionPreview(bidPayload, bidOctas ?? BigInt(0));
+
+  const handleBidSubmit = async () => {
+    if (!auction || !parsedBid?.ok || bidError || !account || ended) return;
+
+    setIsBidding(true);
+    setBidTxError(null);
+    try {
+      const { octas } = parsedBid;
+      await execute(
+        `Bid on ${auction.nftDetails.name}`,
+        (signer) => marketplace.placeBid(signer, auction.id, octas),
+        [queryKeys.auctions(marketplaceAddr), queryKeys.nft(marketplaceAddr, auction.nftId)]
+      );
+
+      onClose();
+    } catch (error) {
+      console.error("Error placing bid:", error);
+      setBidTxError(describeBidError(error, auction, now));
+    } finally {
+      setIsBidding(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="Place Bid"
+      open={open}
+      onCancel={onClose}
+      footer={[
+        <Button key="cancel" onClick={onClose}>
+          Cancel
+        </Button>,
+        <Button
+          key="submit"
+          type="primary"
+          onClick={handleBidSubmit}
+          disabled={
+            ended || !!bidBlocked || !parsedBid?.ok || !!bidError || bidPreview.isLoading || !!bidPreview.predictedError
+          }
+          loading={isBidding}
+        >
+          Place Bid
+        </Button>,
+      ]}
+    >
+      {auction && (
+        <>
+          <p>NFT: {auction.nftDetails.name}</p>
+          <p>Current Highest Bid: {formatApt(auction.currentBid)}</p>
+          <p><AuctionCountdown endTime={auction.endTime} now={now} /></p>
+          {ended && <Alert type="warning" showIcon message="This auction has ended." style={{ marginBottom: 16 }} />}
+          {minBidOctas !== null && <p>Minimum Bid: {formatApt(minBidOctas)}</p>}
+          {bidBlocked && <Alert type="info" showIcon message={bidBlocked} style={{ marginBottom: 16 }} />}
+          <Space wrap>
+            {quickBids(auction).map((quickBid) => (
+              <Button
+                key={quickBid.label}
+                size="small"
+                disabled={!!bidBlocked}
+                onClick={() => setBidAmount(octasToApt(quickBid.octas))}
+              >
+                {quickBid.label}: {formatApt(quickBid.octas)}
+              </Button>
+            ))}
+          </Space>
+          <Input
+            inputMode="decimal"
+            placeholder="Enter bid amount in APT"
+            value={bidAmount}
+            onChange={(e) => setBidAmount(e.target.value)}
+            status={bidError ? "error" : undefined}
+            suffix="APT"
+            style={{ marginTop: 16 }}
+          />
+          {bidError && <Text type="danger">{bidError}</Text>}
+          <TransactionPreview preview={bidPreview} />
+          {bidTxError && <Alert type="error" showIcon message={bidTxError} style={{ marginTop: 16 }} />}
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default BidModal;
@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from "react";
+import { Alert, Button, DatePicker, Input, List, Modal, Progress, Segmented, Table, Tag, Typography } from "antd";
+import moment from "moment";
+import { NFT } from "../services/marketplaceClient";
+import { useChainNow } from "../context/ChainClockContext";
+import { BulkListingKind, useBulkListing } from "../hooks/useBulkListing";
+import { usePriceReferences } from "../hooks/usePriceReferences";
+import { formatApt, parseAptInput } from "../utils/amount";
+import { BULK_PRICING_MODES, BulkJobStatus, BulkPricing, bulkPrice, bulkProgress, retryableJobs } from "../utils/bulkListing";
+import { rarityColors, rarityLabels } from "../utils/rarity";
+
+const { Text } = Typography;
+
+const jobColors: { [key in BulkJobStatus]: string } = {
+  queued: "default",
+  submitting: "processing",
+  done: "success",
+  failed: "error",
+  skipped: "default",
+};
+
+const jobLabels: { [key in BulkJobStatus]: string } = {
+  queued: "Queued",
+  submitting: "Awaiting signature",
+  done: "Done",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+interface BulkListModalProps {
+  nfts: NFT[];
+  open: boolean;
+  onClose: () => void;
+  // Called on close with the NFTs that were listed or auctioned.
+  onDone?: (nftIds: number[]) => void;
+}
+
+const BulkListModal: React.FC<BulkListModalProps> = ({ nfts, open, onClose, onDone }) => {
+  const now = useChainNow();
+  const { floors } = usePriceReferences();
+  const { jobs, isRunning, start, retry, reset } = useBulkListing();
+  const [kind, setKind] = useState<BulkListingKind>("list");
+  const [mode, setMode] = useState<BulkPricing["mode"]>("single");
+  const [singlePrice, setSinglePrice] = useState("");
+  const [rarityPrices, setRarityPrices] = useState<{ [rarity: number]: string }>({});
+  const [percent, setPercent] = useState("");
+  const [endTime, setEndTime] = useState<moment.Moment | null>(null);
+
+  useEffect(() => {
+    if (open) reset();
+  }, [open, reset]);
+
+  const rarities = Array.from(new Set(nfts.map((nft) => nft.rarity))).sort();
+
+  const parsePrice = (input: string) => (input ? parseAptInput(input) : null);
+  const parsedSingle = parsePrice(singlePrice);
+  const parsedRarity = Object.fromEntries(rarities.map((rarity) => [rarity, parsePrice(rarityPrices[rarity] ?? "")]));
+  const percentValue = percent.trim() !== "" ? Number(percent) : null;
+  const percentError = percentValue !== null && !Number.isFinite(percentValue) ? "Enter a percentage, e.g. 10 or -5." : null;
+
+  const pricing: BulkPricing | null =
+    mode === "single"
+      ? parsedSingle?.ok
+        ? { mode, price: parsedSingle.octas }
+        : null
+      : mode === "rarity"
+        ? {
+            mode,
+            prices: Object.fromEntries(
+              rarities.map((rarity) => {
+                const parsed = parsedRarity[rarity];
+                return [rarity, parsed?.ok ? parsed.octas : undefined];
+              })
+            ),
+          }
+        : percentValue !== null && !percentError
+          ? { mode, percent: percentValue }
+          : null;
+
+  const priced = nfts.map((nft) => ({ nft, price: pricing ? bulkPrice(nft, pricing, floors) : null }));
+  const ready = priced.filter((job): job is { nft: NFT; price: bigint } => job.price !== null);
+  const endTimeError =
+    kind === "auction" && endTime && endTime.valueOf() <= now ? "The end time must be in the future." : null;
+  const canSubmit = ready.length > 0 && (kind === "list" || (!!endTime && !endTimeError));
+
+  const progress = bulkProgress(jobs);
+  const failedJobs = retryableJobs(jobs);
+  const queueStarted = jobs.length > 0;
+  const endTimeUnix = endTime ? endTime.unix() : undefined;
+
+  const handleClose = () => {
+    onDone?.(jobs.filter((job) => job.status === "done").map((job) => job.nft.id));
+    onClose();
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    start(ready, kind, endTimeUnix);
+  };
+
+  const renderPriceError = (parsed: ReturnType<typeof parsePrice>) =>
+    parsed && !parsed.ok && <Text type="danger">{parsed.error}</Text>;
+
+  const pricingInputs = (
+    <>
+      {mode === "single" && (
+        <>
+          <Input
+            inputMode="decimal"
+            placeholder={kind === "auction" ? "Starting price in APT" : "Price in APT"}
+            value={singlePrice}
+            onChange={(e) => setSinglePrice(e.target.value)}
+            status={parsedSingle && !parsedSingle.ok ? "error" : undefined}
+            suffix="APT"
+          />
+          {renderPriceError(parsedSingle)}
+        </>
+      )}
+      {mode === "rarity" &&
+        rarities.map((rarity) => (
+          <div key={rarity} style={{ marginBottom: 8 }}>
+            <Input
+              addonBefore={<Tag color={rarityColors[rarity]}>{rarityLabels[rarity]}</Tag>}
+              inputMode="decimal"
+              placeholder="Price in APT"
+              value={rarityPrices[rarity] ?? ""}
+              onChange={(e) => setRarityPrices((current) => ({ ...current, [rarity]: e.target.value }))}
+              status={parsedRarity[rarity] && !parsedRarity[rarity]!.ok ? "error" : undefined}
+              suffix="APT"
+            />
+            {renderPriceError(parsedRarity[rarity])}
+          </div>
+        ))}
+      {mode === "floor" && (
+        <>
+          <Input
+            inputMode="decimal"
+            placeholder="Percent above the floor, e.g. 10 or -5"
+            value={percent}
+            onChange={(e) => setPercent(e.target.value)}
+            status={percentError ? "error" : undefined}
+            suffix="%"
+          />
+          {percentError && <Text type="danger">{percentError}</Text>}
+          <div style={{ marginTop: 8 }}>
+            {rarities.map((rarity) => (
+              <Tag key={rarity} color={rarityColors[rarity]}>
+                {rarityLabels[rarity]} floor: {floors[rarity] ? formatApt(floors[rarity]!) : "none"}
+              </Tag>
+            ))}
+          </div>
+        </>
+      )}
+    </>
+  );
+
+  const setupView = (
+    <>
+      <Segmented
+        block
+        value={kind}
+        onChange={(value) => setKind(value as BulkListingKind)}
+        options={[
+          { value: "list", label: "Fixed price" },
+          { value: "auction", label: "Auction" },
+        ]}
+        style={{ marginBottom: 16 }}
+      />
+      <Segmented
+        value={mode}
+        onChange={(value) => setMode(value as BulkPricing["mode"])}
+        options={BULK_PRICING_MODES.map((option) => ({ value: option.key, label: option.label }))}
+        style={{ marginBottom: 16 }}
+      />
+      {pricingInputs}
+      {kind === "auction" && (
+        <>
+          <DatePicker
+            showTime
+            placeholder="Shared auction end time"
+            onChange={(value) => setEndTime(value ? moment(value.toDate()) : null)}
+            status={endTimeError ? "error" : undefined}
+            style={{ width: "100%", marginTop: 16 }}
+          />
+          {endTimeError && <Text type="danger">{endTimeError}</Text>}
+        </>
+      )}
+      <Table
+        size="small"
+        style={{ marginTop: 16 }}
+        rowKey={(row) => row.nft.id}
+        dataSource={priced}
+        pagination={{ pageSize: 5, hideOnSinglePage: true }}
+        columns={[
+          { title: "NFT", render: (_, row) => row.nft.name },
+          {
+            title: "Rarity",
+            render: (_, row) => <Tag color={rarityColors[row.nft.rarity]}>{rarityLabels[row.nft.rarity]}</Tag>,
+          },
+          {
+            title: kind === "auction" ? "Starting price" : "Price",
+            render: (_, row) => (row.price !== null ? formatApt(row.price) : <Text type="secondary">No price</Text>),
+          },
+        ]}
+      />
+      {pricing && ready.length < nfts.length && (
+        <Alert
+          type="warning"
+          showIcon
+          message={`${nfts.length - ready.length} NFT${nfts.length - ready.length === 1 ? " has" : "s have"} no price and will be left out.`}
+        />
+      )}
+    </>
+  );
+
+  const queueView = (
+    <>
+      <Progress
+        percent={Math.round((progress.finished / jobs.length) * 100)}
+        status={progress.failed ? "exception" : undefined}
+      />
+      <List
+        size="small"
+        dataSource={jobs}
+        rowKey={(job) => job.nft.id}
+        renderItem={(job) => (
+          <List.Item>
+            <List.Item.Meta
+              title={
+                <>
+                  {job.nft.name} · {formatApt(job.price)} <Tag color={jobColors[job.status]}>{jobLabels[job.status]}</Tag>
+                </>
+              }
+              description={job.error && <Text type="danger">{job.error}</Text>}
+            />
+          </List.Item>
+        )}
+      />
+      {!isRunning && (
+        <Alert
+          type={progress.done === jobs.length ? "success" : progress.done ? "warning" : "error"}
+          showIcon
+          style={{ marginTop: 16 }}
+          message={`${progress.done} of ${jobs.length} ${kind === "auction" ? "auctions created" : "NFTs listed"}.`}
+          description={
+            failedJobs.length > 0 &&
+            (endTimeError
+              ? "The shared end time has passed. Pick a new one to retry."
+              : `${progress.failed} failed${progress.skipped ? ` and ${progress.skipped} were skipped` : ""}.`)
+          }
+        />
+      )}
+    </>
+  );
+
+  return (
+    <Modal
+      title={`List ${nfts.length} NFT${nfts.length === 1 ? "" : "s"}`}
+      open={open}
+      onCancel={handleClose}
+      closable={!isRunning}
+      maskClosable={!isRunning}
+      width={640}
+      footer={
+        queueStarted
+          ? [
+              <Button key="close" onClick={handleClose} disabled={isRunning}>
+                Close
+              </Button>,
+              <Button
+                key="retry"
+                type="primary"
+                onClick={() => retry(kind, endTimeUnix)}
+                disabled={isRunning || failedJobs.length === 0 || !!endTimeError}
+                loading={isRunning}
+              >
+                Retry failed ({failedJobs.length})
+              </Button>,
+            ]
+          : [
+              <Button key="cancel" onClick={onClose}>
+                Cancel
+              </Button>,
+              <Button key="submit" type="primary" onClick={handleSubmit} disabled={!canSubmit}>
+                {kind === "auction" ? `Create ${ready.length} Auctions` : `List ${ready.length} NFTs`}
+              </Button>,
+            ]
+      }
+    >
+      {queueStarted ? queueView : setupView}
+      {queueStarted && kind === "auction" && endTimeError && !isRunning && (
+        <DatePicker
+          showTime
+          placeholder="New auction end time"
+          onChange={(value) => setEndTime(value ? moment(value.toDate()) : null)}
+          style={{ width: "100%", marginTop: 16 }}
+        />
+      )}
+    </Modal>
+  );
+};
+
+export default BulkListModal;
@@ -0,0 +1,231 @@
+import React, { useMemo } from "react";
+import { Alert, Button, Descriptions, Drawer, Empty, List, Progress, Space, Tag, Typography } from "antd";
+import { Link } from "react-router-dom";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { NFT } from "../services/marketplaceClient";
+import { useNetwork } from "../context/NetworkContext";
+import { useCart } from "../context/CartContext";
+import { useQueryCache } from "../context/QueryCacheContext";
+import { useMarketplaceEvents } from "../context/MarketplaceEventsContext";
+import { useQuery } from "../hooks/useQuery";
+import { useCartCheckout } from "../hooks/useCartCheckout";
+import { useTransactionPreview } from "../hooks/useTransactionPreview";
+import { queryKeys } from "../services/queryCache";
+import { formatApt } from "../utils/amount";
+import { CartItem, CheckoutStatus, cartIssueLabels, cartItemIssue, cartTotal, checkoutProgress } from "../utils/cart";
+import { rarityColors, rarityLabels } from "../utils/rarity";
+
+const { Text } = Typography;
+
+const stepColors: { [key in CheckoutStatus]: string } = {
+  queued: "default",
+  purchasing: "processing",
+  purchased: "success",
+  failed: "error",
+  skipped: "default",
+};
+
+const stepLabels: { [key in CheckoutStatus]: string } = {
+  queued: "Queued",
+  purchasing: "Awaiting signature",
+  purchased: "Purchased",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+interface CartDrawerProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const CartDrawer: React.FC<CartDrawerProps> = ({ open, onClose }) => {
+  const { account } = useWallet();
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const cache = useQueryCache();
+  const { items, remove, update, clear } = useCart();
+  const { steps, isRunning, checkout, reset } = useCartCheckout();
+
+  // Re-read every listing while the cart is open, so nothing is bought blind.
+  const currentKey = [...queryKeys.market(marketplaceAddr), "cart", items.map((item) => item.id)];
+  const { data: current, isLoading } = useQuery(
+    open && items.length ? currentKey : null,
+    () => Promise.all(items.map((item) => marketplace.getNftDetails(item.id).catch((): NFT | undefined => undefined))),
+    { staleTime: 5000 }
+  );
+
+  useMarketplaceEvents((event) => {
+    if ((event.kind === "purchased" || event.kind === "listed") && items.some((item) => item.id === event.nftId)) {
+      cache.invalidate(currentKey);
+    }
+  });
+
+  const issues = new Map(
+    current ? items.map((item, i) => [item.id, cartItemIssue(item, current[i], account?.address)] as const) : []
+  );
+  const ready = current ? items.filter((item) => !issues.get(item.id)) : [];
+  const total = cartTotal(ready);
+
+  // Every purchase costs about the same gas, so one simulation prices them all.
+  const firstId = ready[0]?.id;
+  const firstPrice = ready[0]?.price;
+  const firstPayload = useMemo(
+    () =>
+      open && !isRunning && firstId !== undefined && firstPrice !== undefined
+        ? marketplace.purchaseNftPayload(firstId, firstPrice)
+        : null,
+    [open, isRunning, firstId, firstPrice, marketplace]
+  );
+  const preview = useTransactionPreview(firstPayload);
+  const estimatedGas = preview.simulation ? preview.simulation.gasFee * BigInt(ready.length) : null;
+  const shortfall =
+    preview.balance !== null && estimatedGas !== null && preview.balance < total + estimatedGas
+      ? total + estimatedGas - preview.balance
+      : null;
+
+  const progress = checkoutProgress(steps);
+  const finished = steps.length > 0 && !isRunning;
+
+  const acceptPrice = (item: CartItem, price: string) => update({ ...item, price });
+
+  const renderIssue = (item: CartItem) => {
+    const issue = issues.get(item.id);
+    if (!issue) return null;
+    return (
+      <Space wrap size={4}>
+        <Tag color={issue.kind === "repriced" ? "orange" : "red"}>{cartIssueLabels[issue.kind]}</Tag>
+        {issue.kind === "repriced" && (
+          <>
+            <Text type="secondary">Now {formatApt(issue.price)}</Text>
+            <Button size="small" onClick={() => acceptPrice(item, issue.price)}>
+              Accept new price
+            </Button>
+          </>
+        )}
+      </Space>
+    );
+  };
+
+  const checkoutSection = (
+    <>
+      <Progress percent={Math.round((progress.done / steps.length) * 100)} status={progress.failed ? "exception" : undefined} />
+      <List
+        size="small"
+        dataSource={steps}
+        rowKey={(step) => step.item.id}
+        renderItem={(step) => (
+          <List.Item>
+            <List.Item.Meta
+              title={
+                <>
+                  {step.item.name} · {formatApt(step.item.price)} <Tag color={stepColors[step.status]}>{stepLabels[step.status]}</Tag>
+                </>
+              }
+              description={step.error && <Text type="danger">{step.error}</Text>}
+            />
+          </List.Item>
+        )}
+      />
+      {finished && (
+        <Alert
+          type={progress.purchased === steps.length ? "success" : progress.purchased ? "warning" : "error"}
+          showIcon
+          style={{ marginTop: 16 }}
+          message={`Bought ${progress.purchased} of ${steps.length} NFTs for ${formatApt(progress.spent)}.`}
+          description={
+            progress.purchased < steps.length &&
+            `${progress.failed} failed${progress.skipped ? ` and ${progress.skipped} were skipped` : ""}. They are still in your cart.`
+          }
+          action={
+            <Button size="small" onClick={reset}>
+              Done
+            </Button>
+          }
+        />
+      )}
+    </>
+  );
+
+  const cartSection = items.length ? (
+    <>
+      <List
+        dataSource={items}
+        rowKey={(item) => item.id}
+        loading={isLoading}
+        renderItem={(item) => (
+          <List.Item
+            actions={[
+              <Button type="link" danger onClick={() => remove(item.id)}>
+                Remove
+              </Button>,
+            ]}
+          >
+            <List.Item.Meta
+              avatar={<img alt={item.name} src={item.uri} style={{ width: 48, height: 48, objectFit: "cover" }} />}
+              title={
+                <>
+                  <Link to={`/nft/${item.id}`} onClick={onClose}>
+                    {item.name}
+                  </Link>{" "}
+                  <Tag color={rarityColors[item.rarity]}>{rarityLabels[item.rarity]}</Tag>
+                </>
+              }
+              description={
+                <>
+                  <div>{formatApt(item.price)}</div>
+                  {renderIssue(item)}
+                </>
+              }
+            />
+          </List.Item>
+        )}
+      />
+      {ready.length < items.length && current && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginTop: 16 }}
+          message={`${items.length - ready.length} item${items.length - ready.length === 1 ? "" : "s"} can't be bought as added and will be left out of checkout.`}
+        />
+      )}
+      <Descriptions size="small" column={1} bordered style={{ marginTop: 16 }}>
+        <Descriptions.Item label={`Total (${ready.length} item${ready.length === 1 ? "" : "s"})`}>{formatApt(total)}</Descriptions.Item>
+        <Descriptions.Item label="Estimated gas">
+          {estimatedGas !== null ? formatApt(estimatedGas) : preview.isLoading ? "Estimating..." : "—"}
+        </Descriptions.Item>
+        {preview.balance !== null && <Descriptions.Item label="Current balance">{formatApt(preview.balance)}</Descriptions.Item>}
+      </Descriptions>
+      {preview.unavailableReason && (
+        <Alert type="info" showIcon style={{ marginTop: 16 }} message={`Fee preview unavailable: ${preview.unavailableReason}`} />
+      )}
+      {shortfall !== null && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginTop: 16 }}
+          message="Your APT balance is too low for the whole cart"
+          description={`You need about ${formatApt(shortfall)} more. Checkout stops once the balance runs out.`}
+        />
+      )}
+      {!account && <Alert type="info" showIcon style={{ marginTop: 16 }} message="Connect your wallet to check out." />}
+      <Space style={{ marginTop: 16 }}>
+        <Button type="primary" onClick={() => checkout(ready)} disabled={!account || !ready.length || isRunning} loading={isRunning}>
+          Check out {ready.length ? `(${ready.length})` : ""}
+        </Button>
+        <Button onClick={clear} disabled={isRunning}>
+          Clear cart
+        </Button>
+      </Space>
+    </>
+  ) : (
+    !steps.length && <Empty description="Your cart is empty" />
+  );
+
+  return (
+    <Drawer title={`Cart (${items.length})`} open={open} onClose={onClose} width={480}>
+      {steps.length > 0 && checkoutSection}
+      {!isRunning && cartSection}
+    </Drawer>
+  );
+};
+
+export default CartDrawer;
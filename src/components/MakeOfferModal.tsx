@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Alert, Button, Checkbox, Input, Modal, Select, Typography } from "antd";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { NFT } from "../services/marketplaceClient";
+import { useNetwork } from "../context/NetworkContext";
+import { useTransactions } from "../context/TransactionContext";
+import { useChainNow } from "../context/ChainClockContext";
+import { describeTransactionError } from "../services/marketplaceErrors";
+import { useTransactionPreview } from "../hooks/useTransactionPreview";
+import { queryKeys } from "../services/queryCache";
+import TransactionPreview from "./TransactionPreview";
+import { formatApt, parseAptInput } from "../utils/amount";
+import { OFFER_DURATIONS, offerBlockedReason } from "../utils/offers";
+
+const { Text } = Typography;
+
+interface MakeOfferModalProps {
+  nft: NFT | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+const MakeOfferModal: React.FC<MakeOfferModalProps> = ({ nft, open, onClose }) => {
+  const { account } = useWallet();
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const { execute } = useTransactions();
+  const now = useChainNow();
+  const [amount, setAmount] = useState<string>("");
+  const [durationSeconds, setDurationSeconds] = useState(OFFER_DURATIONS[1].seconds);
+  const [escrow, setEscrow] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [txError, setTxError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setAmount("");
+      setTxError(null);
+    }
+  }, [open]);
+
+  const blocked = nft ? offerBlockedReason(nft.owner, account?.address) : null;
+  const parsedAmount = amount ? parseAptInput(amount) : null;
+  const amountOctas = parsedAmount?.ok ? parsedAmount.octas : null;
+  // Whole minutes, so the preview isn't re-simulated every clock tick.
+  const expiresAt = Math.floor(now / 60000) * 60 + durationSeconds;
+
+  const offerPayload = useMemo(
+    () =>
+      open && nft && amountOctas !== null && !blocked
+        ? marketplace.makeOfferPayload(nft.id, amountOctas, expiresAt, escrow)
+        : null,
+    [open, nft, amountOctas, blocked, expiresAt, escrow, marketplace]
+  );
+  // Only escrowed offers move funds now.
+  const offerPreview = useTransactionPreview(offerPayload, escrow ? amountOctas ?? BigInt(0) : BigInt(0));
+
+  const handleSubmit = async () => {
+    if (!nft || amountOctas === null || blocked) return;
+
+    setIsSubmitting(true);
+    setTxError(null);
+    try {
+      await execute(
+        `Offer ${formatApt(amountOctas)} for ${nft.name}`,
+        (signer) => marketplace.makeOffer(signer, nft.id, amountOctas, expiresAt, escrow),
+        [queryKeys.offers(marketplaceAddr)]
+      );
+      onClose();
+    } catch (error) {
+      console.error("Error making offer:", error);
+      setTxError(describeTransactionError(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="Make Offer"
+      open={open}
+      onCancel={onClose}
+      footer={[
+        <Button key="cancel" onClick={onClose}>
+          Cancel
+        </Button>,
+        <Button
+          key="submit"
+          type="primary"
+          onClick={handleSubmit}
+          disabled={!!blocked || amountOctas === null || offerPreview.isLoading || !!offerPreview.predictedError}
+          loading={isSubmitting}
+        >
+          Make Offer
+        </Button>,
+      ]}
+    >
+      {nft && (
+        <>
+          <p><strong>NFT:</strong> {nft.name}</p>
+          {nft.for_sale && <p><strong>Listed price:</strong> {formatApt(nft.price)}</p>}
+          {blocked && <Alert type="info" showIcon message={blocked} style={{ marginBottom: 16 }} />}
+          <Input
+            inputMode="decimal"
+            placeholder="Enter offer amount in APT"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            status={parsedAmount && !parsedAmount.ok ? "error" : undefined}
+            suffix="APT"
+          />
+          {parsedAmount && !parsedAmount.ok && <Text type="danger">{parsedAmount.error}</Text>}
+          <div style={{ marginTop: 16 }}>
+            <span style={{ marginRight: 8 }}>Expires in:</span>
+            <Select
+              value={durationSeconds}
+              onChange={setDurationSeconds}
+              style={{ width: 120 }}
+              options={OFFER_DURATIONS.map((duration) => ({ value: duration.seconds, label: duration.label }))}
+            />
+          </div>
+          <Checkbox checked={escrow} onChange={(e) => setEscrow(e.target.checked)} style={{ marginTop: 16 }}>
+            Escrow the offer amount
+          </Checkbox>
+          <div>
+            <Text type="secondary">
+              {escrow
+                ? "The amount is held by the marketplace until the offer is accepted, rejected, cancelled or expires, so the owner can accept it instantly."
+                : "Nothing is held now. If you don't have enough APT when the owner accepts, the sale fails."}
+            </Text>
+          </div>
+          <TransactionPreview preview={offerPreview} />
+          {txError && <Alert type="error" showIcon message={txError} style={{ marginTop: 16 }} />}
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default MakeOfferModal;
@@ -1,39 +1,45 @@
 import React, { useEffect, useState } from "react";
-import { Layout, Typography, Menu, Space, Button, Dropdown, message } from "antd";
+import { Layout, Typography, Menu, Space, Button, Dropdown, Select, Tooltip, Tag, Badge, message } from "antd";
 import { WalletSelector } from "@aptos-labs/wallet-adapter-ant-design";
 import "@aptos-labs/wallet-adapter-ant-design/dist/index.css";
 import { useWallet } from "@aptos-labs/wallet-adapter-react";
-import { AptosClient } from "aptos";
-import { AccountBookOutlined, DownOutlined, LogoutOutlined } from "@ant-design/icons";
+import { AccountBookOutlined, DownOutlined, LogoutOutlined, ShoppingCartOutlined, WarningOutlined } from "@ant-design/icons";
 import { Link } from "react-router-dom";
+import { useNetwork } from "../context/NetworkContext";
+import { useCart } from "../context/CartContext";
+import { NETWORKS, deployedNetworks, isDeployed, parseNetworkName } from "../config";
+import { formatApt } from "../utils/amount";
+import TransactionPanel from "./TransactionPanel";
+import CartDrawer from "./CartDrawer";
 
 const { Header } = Layout;
 const { Text } = Typography;
 
-const client = new AptosClient("https://fullnode.testnet.aptoslabs.com/v1");
-
 interface NavBarProps {
   onMintNFTClick: () => void;
 }
 
 const NavBar: React.FC<NavBarProps> = ({ onMintNFTClick }) => {
   const { connected, account, network, disconnect } = useWallet();
-  const [balance, setBalance] = useState<number | null>(null);
+  const { marketplace, network: appNetwork, setNetwork } = useNetwork();
+  const [balance, setBalance] = useState<bigint | null>(null); // In octas
+  const [isCartOpen, setIsCartOpen] = useState(false);
+  const { items: cartItems } = useCart();
+  const walletNetwork = parseNetworkName(network?.name);
+  const isNetworkMismatch = connected && !!network && walletNetwork !== appNetwork;
+
+  // Follow the wallet onto another network whenever the marketplace is deployed there.
+  useEffect(() => {
+    if (walletNetwork && isDeployed(walletNetwork)) {
+      setNetwork(walletNetwork);
+    }
+  }, [walletNetwork, setNetwork]);
 
   useEffect(() => {
     const fetchBalance = async () => {
       if (account) {
         try {
-          const resources: any[] = await client.getAccountResources(account.address);
-          const accountResource = resources.find(
-            (r) => r.type === "0x1::coin::CoinStore<0x1::aptos_coin::AptosCoin>"
-          );
-          if (accountResource) {
-            const balanceValue = (accountResource.data as any).coin.value;
-            setBalance(balanceValue ? parseInt(balanceValue) / 100000000 : 0);
-          } else {
-            setBalance(0);
-          }
+          setBalance(await marketplace.getAptBalance(account.address));
         } catch (error) {
           console.error("Error fetching balance:", error);
         }
@@ -43,7 +49,7 @@ const NavBar: React.FC<NavBarProps> = ({ onMintNFTClick }) => {
     if (connected) {
       fetchBalance();
     }
-  }, [account, connected]);
+  }, [account, connected, marketplace]);
 
   const handleLogout = async () => {
     try {
@@ -75,9 +81,15 @@ const NavBar: React.FC<NavBarProps> = ({ onMintNFTClick }) => {
           <Menu.Item key="my-collection">
             <Link to="/my-nfts" style={{ color: "#fff" }}>My Collection</Link>
           </Menu.Item>
+          <Menu.Item key="collections">
+            <Link to="/collections" style={{ color: "#fff" }}>Collections</Link>
+          </Menu.Item>
           <Menu.Item key="auctions">
             <Link to="/auctions" style={{ color: "#fff" }}>Auctions</Link>
           </Menu.Item>
+          <Menu.Item key="analytics">
+            <Link to="/analytics" style={{ color: "#fff" }}>Analytics</Link>
+          </Menu.Item>
           <Menu.Item key="fusion">
             <Link to="/fusion" style={{ color: "#fff" }}>NFT Fusion</Link>
           </Menu.Item>
@@ -88,6 +100,27 @@ const NavBar: React.FC<NavBarProps> = ({ onMintNFTClick }) => {
       </div>
   
       <Space style={{ alignItems: "center" }}>
+        {isNetworkMismatch && (
+          <Tooltip
+            title={`Your wallet is connected to ${network?.name}, but the marketplace is using ${NETWORKS[appNetwork].label}. Switch networks in your wallet to transact.`}
+          >
+            <Tag icon={<WarningOutlined />} color="warning">
+              Network mismatch
+            </Tag>
+          </Tooltip>
+        )}
+        <TransactionPanel />
+        <Badge count={cartItems.length} size="small">
+          <Button icon={<ShoppingCartOutlined />} onClick={() => setIsCartOpen(true)}>
+            Cart
+          </Button>
+        </Badge>
+        <Select
+          value={appNetwork}
+          onChange={setNetwork}
+          style={{ width: 120 }}
+          options={deployedNetworks().map((config) => ({ value: config.name, label: config.label }))}
+        />
         {connected && account ? (
           <Dropdown
             overlay={
@@ -100,7 +133,10 @@ const NavBar: React.FC<NavBarProps> = ({ onMintNFTClick }) => {
                   <Text strong>Network:</Text> {network ? network.name : "Unknown"}
                 </Menu.Item>
                 <Menu.Item key="balance">
-                  <Text strong>Balance:</Text> {balance !== null ? `${balance} APT` : "Loading..."}
+                  <Text strong>Balance:</Text> {balance !== null ? formatApt(balance) : "Loading..."}
+                </Menu.Item>
+                <Menu.Item key="profile">
+                  <Link to={`/profile/${account.address}`}>My profile</Link>
                 </Menu.Item>
                 <Menu.Divider />
                 <Menu.Item key="logout" icon={<LogoutOutlined />} onClick={handleLogout}>
@@ -118,6 +154,7 @@ const NavBar: React.FC<NavBarProps> = ({ onMintNFTClick }) => {
           <WalletSelector />
         )}
       </Space>
+      <CartDrawer open={isCartOpen} onClose={() => setIsCartOpen(false)} />
     </Header>
   );
 };
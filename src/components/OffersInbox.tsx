@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import { Button, Card, Empty, Input, List, Modal, Popconfirm, Space, Tabs, Tag, Tooltip, Typography } from "antd";
+import { Link } from "react-router-dom";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { Offer } from "../services/marketplaceClient";
+import { useNetwork } from "../context/NetworkContext";
+import { useChainNow } from "../context/ChainClockContext";
+import { useQuery } from "../hooks/useQuery";
+import { useOfferActions } from "../hooks/useOfferActions";
+import { useModuleFunctions } from "../hooks/useModuleFunctions";
+import { queryKeys } from "../services/queryCache";
+import { compareOctas, formatApt, parseAptInput } from "../utils/amount";
+import { truncateAddress } from "../utils/address";
+import { formatCountdown, timeLeftMs } from "../utils/countdown";
+import { incomingOffers, offerStatus, offerStatusLabels, outgoingOffers } from "../utils/offers";
+
+const { Text } = Typography;
+
+const statusColors = { open: "blue", countered: "purple", expired: "default" };
+
+// Offers on the connected account's NFTs, and the offers it has made, shown in
+// My Collection.
+const OffersInbox: React.FC = () => {
+  const { account } = useWallet();
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const now = useChainNow();
+  const { accept, acceptCounter, reject, cancel, counter, pendingOfferId, supported } = useOfferActions();
+  const hasFunction = useModuleFunctions();
+  const [counterTarget, setCounterTarget] = useState<Offer | null>(null);
+  const [counterAmount, setCounterAmount] = useState<string>("");
+  const { data: offers } = useQuery(hasFunction("get_all_offers") ? queryKeys.offers(marketplaceAddr) : null, () =>
+    marketplace.getAllOffers()
+  );
+
+  const incoming = incomingOffers(offers ?? [], account?.address);
+  const outgoing = outgoingOffers(offers ?? [], account?.address);
+  if (!account || (incoming.length === 0 && outgoing.length === 0)) return null;
+
+  const parsedCounter = counterAmount ? parseAptInput(counterAmount) : null;
+  const counterError =
+    parsedCounter && !parsedCounter.ok
+      ? parsedCounter.error
+      : parsedCounter?.ok && counterTarget && compareOctas(parsedCounter.octas, counterTarget.amount) <= 0
+        ? `A counter-offer must be more than the ${formatApt(counterTarget.amount)} offered.`
+        : null;
+
+  const openCounter = (offer: Offer) => {
+    setCounterTarget(offer);
+    setCounterAmount("");
+  };
+
+  const submitCounter = async () => {
+    if (!counterTarget || !parsedCounter?.ok || counterError) return;
+    if (await counter(counterTarget, parsedCounter.octas)) setCounterTarget(null);
+  };
+
+  const renderDetails = (offer: Offer, counterparty: string) => {
+    const status = offerStatus(offer, now);
+    return (
+      <Space wrap size={4}>
+        <Tag color={statusColors[status]}>{offerStatusLabels[status]}</Tag>
+        <Tooltip
+          title={
+            offer.escrowed
+              ? "The offer amount is held by the marketplace."
+              : "Nothing is held. The sale fails if the offerer can't pay when it's accepted."
+          }
+        >
+          <Tag color={offer.escrowed ? "green" : "orange"}>{offer.escrowed ? "Escrowed" : "Not escrowed"}</Tag>
+        </Tooltip>
+        {offer.counterAmount !== null && <Text>Counter: {formatApt(offer.counterAmount)}</Text>}
+        <Text type="secondary">
+          {status === "expired" ? "Expired" : `Expires in ${formatCountdown(timeLeftMs(offer.expiresAt, now))}`} ·{" "}
+          <Link to={`/profile/${counterparty}`}>{truncateAddress(counterparty)}</Link>
+        </Text>
+      </Space>
+    );
+  };
+
+  const renderIncomingActions = (offer: Offer) => {
+    const status = offerStatus(offer, now);
+    const loading = pendingOfferId === offer.id;
+    if (status === "expired") {
+      return supported.reject
+        ? [
+            <Button loading={loading} onClick={() => reject(offer)}>
+              Dismiss
+            </Button>,
+          ]
+        : [];
+    }
+    return [
+      status === "open" && supported.accept && (
+        <Popconfirm title={`Sell ${offer.nftDetails.name} for ${formatApt(offer.amount)}?`} onConfirm={() => accept(offer)}>
+          <Button type="primary" loading={loading}>
+            Accept
+          </Button>
+        </Popconfirm>
+      ),
+      status === "open" && supported.counter && <Button onClick={() => openCounter(offer)}>Counter</Button>,
+      supported.reject && (
+        <Button danger loading={loading} onClick={() => reject(offer)}>
+          Reject
+        </Button>
+      ),
+    ].filter(Boolean);
+  };
+
+  const renderOutgoingActions = (offer: Offer) => {
+    const status = offerStatus(offer, now);
+    const loading = pendingOfferId === offer.id;
+    return [
+      status === "countered" && supported.acceptCounter && (
+        <Popconfirm
+          title={`Buy ${offer.nftDetails.name} for ${formatApt(offer.counterAmount!)}?`}
+          onConfirm={() => acceptCounter(offer)}
+        >
+          <Button type="primary" loading={loading}>
+            Accept Counter
+          </Button>
+        </Popconfirm>
+      ),
+      supported.cancel && (
+        <Button danger={status !== "expired"} loading={loading} onClick={() => cancel(offer)}>
+          {status === "expired" && offer.escrowed ? "Reclaim Escrow" : "Cancel"}
+        </Button>
+      ),
+    ].filter(Boolean);
+  };
+
+  const renderList = (items: Offer[], incomingSide: boolean) =>
+    items.length ? (
+      <List
+        dataSource={items}
+        rowKey={(offer) => offer.id}
+        renderItem={(offer) => (
+          <List.Item actions={incomingSide ? renderIncomingActions(offer) : renderOutgoingActions(offer)}>
+            <List.Item.Meta
+              avatar={<img alt={offer.nftDetails.name} src={offer.nftDetails.uri} style={{ width: 48, height: 48, objectFit: "cover" }} />}
+              title={
+                <>
+                  <Link to={`/nft/${offer.nftId}`}>{offer.nftDetails.name}</Link> · {formatApt(offer.amount)}
+                </>
+              }
+              description={renderDetails(offer, incomingSide ? offer.offerer : offer.owner)}
+            />
+          </List.Item>
+        )}
+      />
+    ) : (
+      <Empty description="No offers" />
+    );
+
+  return (
+    <Card title="Offers" style={{ width: "100%", maxWidth: 900, marginTop: 20, textAlign: "left" }}>
+      <Tabs
+        items={[
+          { key: "incoming", label: `Received (${incoming.length})`, children: renderList(incoming, true) },
+          { key: "outgoing", label: `Made (${outgoing.length})`, children: renderList(outgoing, false) },
+        ]}
+      />
+
+      <Modal
+        title="Counter Offer"
+        open={!!counterTarget}
+        onCancel={() => setCounterTarget(null)}
+        footer={[
+          <Button key="cancel" onClick={() => setCounterTarget(null)}>
+            Cancel
+          </Button>,
+          <Button
+            key="submit"
+            type="primary"
+            onClick={submitCounter}
+            disabled={!parsedCounter?.ok || !!counterError}
+            loading={!!counterTarget && pendingOfferId === counterTarget.id}
+          >
+            Send Counter
+          </Button>,
+        ]}
+      >
+        {counterTarget && (
+          <>
+            <p>NFT: {counterTarget.nftDetails.name}</p>
+            <p>Offered: {formatApt(counterTarget.amount)}</p>
+            <Input
+              inputMode="decimal"
+              placeholder="Enter your counter in APT"
+              value={counterAmount}
+              onChange={(e) => setCounterAmount(e.target.value)}
+              status={counterError ? "error" : undefined}
+              suffix="APT"
+            />
+            {counterError && <Text type="danger">{counterError}</Text>}
+          </>
+        )}
+      </Modal>
+    </Card>
+  );
+};
+
+export default OffersInbox;
@@ -0,0 +1,75 @@
+import React from "react";
+
+export interface PricePoint {
+  time: number; // Unix ms
+  value: number; // In `unit`, for display only
+  highlight?: boolean;
+}
+
+interface PriceChartProps {
+  points: PricePoint[];
+  width?: number;
+  height?: number;
+  // A bare line without axes or markers, for inline sparklines.
+  compact?: boolean;
+  color?: string;
+  unit?: string;
+}
+
+const HIGHLIGHT_COLOR = "#fa541c";
+
+// A small SVG line chart; prices only ever need a trend line, which doesn't
+// justify a charting dependency.
+const PriceChart: React.FC<PriceChartProps> = ({
+  points,
+  width = 600,
+  height = 200,
+  compact = false,
+  color = "#1677ff",
+  unit = "APT",
+}) => {
+  if (points.length === 0) return null;
+
+  const padding = compact ? 2 : 32;
+  const times = points.map((point) => point.time);
+  const values = points.map((point) => point.value);
+  const [minTime, maxTime] = [Math.min(...times), Math.max(...times)];
+  const [minValue, maxValue] = [Math.min(...values), Math.max(...values)];
+  // A single point or a flat line would divide by zero; center those instead.
+  const x = (time: number) =>
+    maxTime === minTime ? width / 2 : padding + ((time - minTime) / (maxTime - minTime)) * (width - 2 * padding);
+  const y = (value: number) =>
+    maxValue === minValue ? height / 2 : height - padding - ((value - minValue) / (maxValue - minValue)) * (height - 2 * padding);
+
+  const path = points.map((point, i) => `${i === 0 ? "M" : "L"}${x(point.time)},${y(point.value)}`).join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} style={{ width: "100%", height: "auto" }} role="img">
+      {!compact && (
+        <g fontSize={11} fill="#8c8c8c">
+          <line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} stroke="#f0f0f0" />
+          <text x={padding} y={padding - 8}>{maxValue} {unit}</text>
+          <text x={padding} y={height - padding + 16}>{new Date(minTime).toLocaleString()}</text>
+          <text x={width - padding} y={height - padding + 16} textAnchor="end">
+            {new Date(maxTime).toLocaleString()}
+          </text>
+        </g>
+      )}
+      <path d={path} fill="none" stroke={color} strokeWidth={compact ? 1.5 : 2} />
+      {!compact &&
+        points.map((point, i) => (
+          <circle
+            key={i}
+            cx={x(point.time)}
+            cy={y(point.value)}
+            r={point.highlight ? 5 : 3}
+            fill={point.highlight ? HIGHLIGHT_COLOR : color}
+          >
+            <title>{`${point.value} ${unit} · ${new Date(point.time).toLocaleString()}`}</title>
+          </circle>
+        ))}
+    </svg>
+  );
+};
+
+export default PriceChart;
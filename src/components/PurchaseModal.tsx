@@ -0,0 +1,132 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Alert, Button, Modal } from "antd";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { NFT } from "../services/marketplaceClient";
+import { useNetwork } from "../context/NetworkContext";
+import { useTransactions } from "../context/TransactionContext";
+import { useMarketplaceEvents } from "../context/MarketplaceEventsContext";
+import { describeTransactionError } from "../services/marketplaceErrors";
+import { useTransactionPreview } from "../hooks/useTransactionPreview";
+import { useQuery } from "../hooks/useQuery";
+import { usePriceReferences } from "../hooks/usePriceReferences";
+import { isSale } from "../services/priceHistory";
+import { queryKeys } from "../services/queryCache";
+import TransactionPreview from "./TransactionPreview";
+import PriceChart from "./PriceChart";
+import { formatApt, toAptNumber } from "../utils/amount";
+import { describeFloorDifference } from "../utils/floor";
+import { sameAddress, truncateAddress } from "../utils/address";
+import { rarityLabels } from "../utils/rarity";
+
+interface PurchaseModalProps {
+  nft: NFT | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+const PurchaseModal: React.FC<PurchaseModalProps> = ({ nft, open, onClose }) => {
+  const { account } = useWallet();
+  const { marketplace, marketplaceAddr, dataSource } = useNetwork();
+  const { execute } = useTransactions();
+  const [isPurchasing, setIsPurchasing] = useState(false);
+  const [purchaseError, setPurchaseError] = useState<string | null>(null);
+  const { floors } = usePriceReferences();
+  const { data: history } = useQuery(open && nft ? [...queryKeys.nft(marketplaceAddr, nft.id), "history"] : null, () =>
+    dataSource.getPriceHistory(nft!.id)
+  );
+  const sales = (history ?? []).filter(isSale);
+  const floor = nft ? floors[nft.rarity] ?? null : null;
+
+  useEffect(() => {
+    if (open) setPurchaseError(null);
+  }, [open, nft]);
+
+  // Warn rather than let the user sign a purchase that is bound to abort.
+  useMarketplaceEvents((event) => {
+    if (event.kind === "purchased" && open && nft?.id === event.nftId && !sameAddress(event.buyer, account?.address)) {
+      setPurchaseError("This NFT has just been sold to someone else.");
+    }
+  });
+
+  const purchasePayload = useMemo(
+    () => (open && nft ? marketplace.purchaseNftPayload(nft.id, nft.price) : null),
+    [open, nft, marketplace]
+  );
+  const purchasePreview = useTransactionPreview(purchasePayload, nft?.price);
+
+  const handleConfirmPurchase = async () => {
+    if (!nft) return;
+  
+    setIsPurchasing(true);
+    setPurchaseError(null);
+    try {
+      await execute(
+        `Purchase ${nft.name}`,
+        (signer) => marketplace.purchaseNft(signer, nft.id, nft.price),
+        [
+          queryKeys.nft(marketplaceAddr, nft.id),
+          queryKeys.market(marketplaceAddr),
+          queryKeys.owner(marketplaceAddr, nft.owner),
+          ...(account ? [queryKeys.owner(marketplaceAddr, account.address)] : []),
+        ]
+      );
+  
+      onClose();
+    } catch (error) {
+      console.error("Error purchasing NFT:", error);
+      setPurchaseError(describeTransactionError(error));
+    } finally {
+      setIsPurchasing(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="Purchase NFT"
+      open={open}
+      onCancel={onClose}
+      footer={[
+        <Button key="cancel" onClick={onClose}>
+          Cancel
+        </Button>,
+        <Button
+          key="confirm"
+          type="primary"
+          onClick={handleConfirmPurchase}
+          loading={isPurchasing}
+          disabled={purchasePreview.isLoading || !!purchasePreview.predictedError}
+        >
+          Confirm Purchase
+        </Button>,
+      ]}
+    >
+      {nft && (
+        <>
+          <p><strong>NFT ID:</strong> {nft.id}</p>
+          <p><strong>Name:</strong> {nft.name}</p>
+          <p><strong>Description:</strong> {nft.description}</p>
+          <p><strong>Rarity:</strong> {rarityLabels[nft.rarity]}</p>
+          <p><strong>Price:</strong> {formatApt(nft.price)}</p>
+          <p><strong>Owner:</strong> {truncateAddress(nft.owner)}</p>
+          {floor !== null && (
+            <p><strong>Floor:</strong> {formatApt(floor)} · {describeFloorDifference(nft.price, floor, rarityLabels[nft.rarity])}</p>
+          )}
+          {sales.length > 0 ? (
+            <>
+              <p style={{ marginBottom: 4 }}>
+                <strong>Last sold for:</strong> {formatApt(sales[sales.length - 1].price)} ({sales.length} sale{sales.length === 1 ? "" : "s"})
+              </p>
+              <PriceChart points={sales.map((sale) => ({ time: sale.timestamp, value: toAptNumber(sale.price) }))} height={60} compact />
+            </>
+          ) : (
+            history && <p><strong>Price history:</strong> Never sold before</p>
+          )}
+          <TransactionPreview preview={purchasePreview} />
+          {purchaseError && <Alert type="error" showIcon message={purchaseError} style={{ marginTop: 16 }} />}
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default PurchaseModal;
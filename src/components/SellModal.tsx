@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from "react";
+import { Alert, Button, Input, Modal, Typography } from "antd";
+import { NFT } from "../services/marketplaceClient";
+import { useNetwork } from "../context/NetworkContext";
+import { useTransactions } from "../context/TransactionContext";
+import { describeTransactionError } from "../services/marketplaceErrors";
+import { useTransactionPreview } from "../hooks/useTransactionPreview";
+import { queryKeys } from "../services/queryCache";
+import TransactionPreview from "./TransactionPreview";
+import { formatApt, parseAptInput } from "../utils/amount";
+
+const { Text } = Typography;
+
+interface SellModalProps {
+  nft: NFT | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+const SellModal: React.FC<SellModalProps> = ({ nft, open, onClose }) => {
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const { execute } = useTransactions();
+  const [salePrice, setSalePrice] = useState<string>("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [txError, setTxError] = useState<string | null>(null);
+
+  const parsedSalePrice = salePrice ? parseAptInput(salePrice) : null;
+  // Listed NFTs are repriced in place rather than listed again.
+  const isRepricing = !!nft?.for_sale;
+
+  const listingPayload = useMemo(() => {
+    if (!open || !nft || !salePrice) return null;
+    const parsed = parseAptInput(salePrice);
+    if (!parsed.ok) return null;
+    return nft.for_sale
+      ? marketplace.updatePricePayload(nft.id, parsed.octas)
+      : marketplace.listForSalePayload(nft.id, parsed.octas);
+  }, [open, nft, salePrice, marketplace]);
+  const listingPreview = useTransactionPreview(listingPayload);
+
+  const handleCancel = () => {
+    setSalePrice("");
+    setTxError(null);
+    onClose();
+  };
+
+  const handleConfirmListing = async () => {
+    if (!nft || !parsedSalePrice?.ok) return;
+  
+    setIsSubmitting(true);
+    setTxError(null);
+    try {
+      const { octas } = parsedSalePrice;
+      await execute(
+        isRepricing ? `Update price of ${nft.name}` : `List ${nft.name} for sale`,
+        (signer) =>
+          isRepricing ? marketplace.updatePrice(signer, nft.id, octas) : marketplace.listForSale(signer, nft.id, octas),
+        [queryKeys.nft(marketplaceAddr, nft.id), queryKeys.owner(marketplaceAddr, nft.owner), queryKeys.market(marketplaceAddr)]
+      );
+  
+      setSalePrice("");
+      onClose();
+    } catch (error) {
+      console.error(isRepricing ? "Error updating NFT price:" : "Error listing NFT for sale:", error);
+      setTxError(describeTransactionError(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={isRepricing ? "Update Price" : "Sell NFT"}
+      open={open}
+      onCancel={handleCancel}
+      footer={[
+        <Button key="cancel" onClick={handleCancel}>
+          Cancel
+        </Button>,
+        <Button
+          key="confirm"
+          type="primary"
+          onClick={handleConfirmListing}
+          disabled={!parsedSalePrice?.ok || listingPreview.isLoading || !!listingPreview.predictedError}
+          loading={isSubmitting}
+        >
+          {isRepricing ? "Update Price" : "Confirm Listing"}
+        </Button>,
+      ]}
+    >
+      {nft && (
+        <>
+          <p><strong>NFT ID:</strong> {nft.id}</p>
+          <p><strong>Name:</strong> {nft.name}</p>
+          <p><strong>Description:</strong> {nft.description}</p>
+          <p><strong>Rarity:</strong> {nft.rarity}</p>
+          <p><strong>Current Price:</strong> {formatApt(nft.price)}</p>
+
+          <Input
+            inputMode="decimal"
+            placeholder={isRepricing ? "Enter new price in APT" : "Enter sale price in APT"}
+            value={salePrice}
+            onChange={(e) => setSalePrice(e.target.value)}
+            status={parsedSalePrice && !parsedSalePrice.ok ? "error" : undefined}
+            suffix="APT"
+            style={{ marginTop: 10 }}
+          />
+          {parsedSalePrice && !parsedSalePrice.ok && <Text type="danger">{parsedSalePrice.error}</Text>}
+          <TransactionPreview preview={listingPreview} />
+          {txError && <Alert type="error" showIcon message={txError} style={{ marginTop: 10 }} />}
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default SellModal;
@@ -0,0 +1,105 @@
+import React from "react";
+import { Badge, Button, Empty, List, Popover, Tag, Typography } from "antd";
+import { HistoryOutlined } from "@ant-design/icons";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { explorerTxnUrl } from "../config";
+import { useNetwork } from "../context/NetworkContext";
+import { TrackedTransaction, TransactionStatus, isInHistoryOf, isPending, useTransactions } from "../context/TransactionContext";
+
+const { Text } = Typography;
+
+const statusColors: { [key in TransactionStatus]: string } = {
+  signing: "default",
+  submitted: "processing",
+  executing: "processing",
+  success: "success",
+  aborted: "error",
+  failed: "error",
+};
+
+const statusLabels: { [key in TransactionStatus]: string } = {
+  signing: "Awaiting signature",
+  submitted: "Submitted",
+  executing: "Executing",
+  success: "Success",
+  aborted: "Aborted",
+  failed: "Failed",
+};
+
+const TransactionItem: React.FC<{ txn: TrackedTransaction }> = ({ txn }) => (
+  <List.Item
+    extra={
+      txn.hash && (
+        <a href={explorerTxnUrl(txn.network, txn.hash)} target="_blank" rel="noopener noreferrer">
+          Explorer
+        </a>
+      )
+    }
+  >
+    <List.Item.Meta
+      title={
+        <>
+          {txn.label} <Tag color={statusColors[txn.status]}>{statusLabels[txn.status]}</Tag>
+        </>
+      }
+      description={
+        <>
+          <Text type="secondary">{new Date(txn.createdAt).toLocaleString()}</Text>
+          {txn.error && (
+            <div>
+              <Text type="danger">{txn.error}</Text>
+            </div>
+          )}
+          {txn.abort && (
+            <div>
+              <Text type="secondary">
+                {txn.abort.module}::{txn.abort.name ?? "abort"} (code {txn.abort.code})
+              </Text>
+            </div>
+          )}
+        </>
+      }
+    />
+  </List.Item>
+);
+
+const TransactionPanel: React.FC = () => {
+  const { account } = useWallet();
+  const { network } = useNetwork();
+  const { transactions, clearHistory } = useTransactions();
+
+  const visible = transactions.filter((txn) => isInHistoryOf(txn, network, account?.address));
+  const pendingCount = visible.filter(isPending).length;
+
+  return (
+    <Popover
+      trigger="click"
+      placement="bottomRight"
+      title={
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <span>Recent Transactions</span>
+          <Button type="link" size="small" onClick={clearHistory} disabled={visible.length === 0}>
+            Clear
+          </Button>
+        </div>
+      }
+      content={
+        <div style={{ width: 360, maxHeight: 400, overflowY: "auto" }}>
+          {visible.length === 0 ? (
+            <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No transactions yet" />
+          ) : (
+            <List dataSource={visible} renderItem={(txn) => <TransactionItem txn={txn} />} />
+          )}
+        </div>
+      }
+    >
+      <Badge count={pendingCount} size="small">
+        <Button icon={<HistoryOutlined />} loading={pendingCount > 0}>
+          Activity
+        </Button>
+      </Badge>
+    </Popover>
+  );
+};
+
+export default TransactionPanel;
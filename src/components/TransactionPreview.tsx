@@ -0,0 +1,50 @@
+import React from "react";
+import { Alert, Descriptions, Spin } from "antd";
+import { TransactionPreview as Preview } from "../hooks/useTransactionPreview";
+import { formatApt } from "../utils/amount";
+
+interface TransactionPreviewProps {
+  preview: Preview;
+}
+
+const TransactionPreview: React.FC<TransactionPreviewProps> = ({ preview }) => {
+  if (preview.isLoading) {
+    return (
+      <div style={{ marginTop: 16, textAlign: "center" }}>
+        <Spin size="small" /> Estimating fees...
+      </div>
+    );
+  }
+  if (preview.unavailableReason) {
+    return <Alert type="info" showIcon style={{ marginTop: 16 }} message={`Fee preview unavailable: ${preview.unavailableReason}`} />;
+  }
+  if (!preview.simulation) return null;
+
+  return (
+    <>
+      <Descriptions size="small" column={1} bordered style={{ marginTop: 16 }}>
+        <Descriptions.Item label="Estimated gas fee">{formatApt(preview.simulation.gasFee)}</Descriptions.Item>
+        {preview.totalCost !== null && (
+          <Descriptions.Item label="Total cost">{formatApt(preview.totalCost)}</Descriptions.Item>
+        )}
+        {preview.balance !== null && (
+          <Descriptions.Item label="Current balance">{formatApt(preview.balance)}</Descriptions.Item>
+        )}
+        {preview.remainingBalance !== null && preview.remainingBalance >= BigInt(0) && (
+          <Descriptions.Item label="Balance after">{formatApt(preview.remainingBalance)}</Descriptions.Item>
+        )}
+      </Descriptions>
+      {preview.predictedError && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginTop: 16 }}
+          message="This transaction is expected to fail"
+          description={preview.predictedError}
+        />
+      )}
+    </>
+  );
+};
+
+export default TransactionPreview;
@@ -0,0 +1,72 @@
+export type NetworkName = "devnet" | "testnet" | "mainnet" | "localnet";
+
+export interface NetworkConfig {
+  name: NetworkName;
+  label: string;
+  fullnodeUrl: string;
+  marketplaceAddr?: string;
+  // GraphQL endpoint of the marketplace indexer. Without one, queries fall back
+  // to contract view functions.
+  indexerUrl?: string;
+}
+
+const env = process.env;
+
+// The testnet deployment the app has always shipped against, used when no
+// address is configured in .env.
+const TESTNET_MARKETPLACE_ADDR = "0x75cfca25296896f907a457e20a245f9af304cb1e48723d864e17f2e08ad93159";
+
+export const NETWORKS: Record<NetworkName, NetworkConfig> = {
+  devnet: {
+    name: "devnet",
+    label: "Devnet",
+    fullnodeUrl: env.REACT_APP_DEVNET_FULLNODE_URL || "https://fullnode.devnet.aptoslabs.com/v1",
+    marketplaceAddr: env.REACT_APP_DEVNET_MARKETPLACE_ADDR,
+    indexerUrl: env.REACT_APP_DEVNET_INDEXER_URL,
+  },
+  testnet: {
+    name: "testnet",
+    label: "Testnet",
+    fullnodeUrl: env.REACT_APP_TESTNET_FULLNODE_URL || "https://fullnode.testnet.aptoslabs.com/v1",
+    marketplaceAddr: env.REACT_APP_TESTNET_MARKETPLACE_ADDR || TESTNET_MARKETPLACE_ADDR,
+    indexerUrl: env.REACT_APP_TESTNET_INDEXER_URL,
+  },
+  mainnet: {
+    name: "mainnet",
+    label: "Mainnet",
+    fullnodeUrl: env.REACT_APP_MAINNET_FULLNODE_URL || "https://fullnode.mainnet.aptoslabs.com/v1",
+    marketplaceAddr: env.REACT_APP_MAINNET_MARKETPLACE_ADDR,
+    indexerUrl: env.REACT_APP_MAINNET_INDEXER_URL,
+  },
+  localnet: {
+    name: "localnet",
+    label: "Localnet",
+    fullnodeUrl: env.REACT_APP_LOCALNET_FULLNODE_URL || "http://127.0.0.1:8080/v1",
+    marketplaceAddr: env.REACT_APP_LOCALNET_MARKETPLACE_ADDR,
+    indexerUrl: env.REACT_APP_LOCALNET_INDEXER_URL,
+  },
+};
+
+// Wallets report names like "Testnet", "testnet" or "local"; map them onto ours.
+export const parseNetworkName = (name?: string | null): NetworkName | null => {
+  if (!name) return null;
+  const normalized = name.toLowerCase();
+  if (normalized === "local") return "localnet";
+  return normalized in NETWORKS ? (normalized as NetworkName) : null;
+};
+
+export const isDeployed = (network: NetworkName) => !!NETWORKS[network].marketplaceAddr;
+
+export const deployedNetworks = (): NetworkConfig[] =>
+  Object.values(NETWORKS).filter((config) => isDeployed(config.name));
+
+const configuredNetwork = parseNetworkName(env.REACT_APP_NETWORK);
+
+export const DEFAULT_NETWORK: NetworkName =
+  configuredNetwork && isDeployed(configuredNetwork) ? configuredNetwork : "testnet";
+
+export const explorerTxnUrl = (network: NetworkName, hash: string) =>
+  `https://explorer.aptoslabs.com/txn/${hash}?network=${network === "localnet" ? "local" : network}`;
+
+// The wallet adapter (and the SDK wallets it configures) calls localnet "local".
+export const walletNetworkName = (network: NetworkName) => (network === "localnet" ? "local" : network);
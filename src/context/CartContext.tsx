@@ -0,0 +1,75 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { NFT } from "../services/marketplaceClient";
+import { NetworkName } from "../config";
+import { CartItem, toCartItem } from "../utils/cart";
+import { useNetwork } from "./NetworkContext";
+
+const STORAGE_KEY = "nft-marketplace:cart";
+
+type Carts = { [network in NetworkName]?: CartItem[] };
+
+interface CartContextValue {
+  // The cart for the selected network.
+  items: CartItem[];
+  add: (nft: NFT) => void;
+  remove: (nftId: number) => void;
+  // Replaces an item's snapshot, e.g. to accept a new price.
+  update: (item: CartItem) => void;
+  clear: () => void;
+  contains: (nftId: number) => boolean;
+}
+
+const CartContext = createContext<CartContextValue | null>(null);
+
+const loadCarts = (): Carts => {
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+// Listings the user means to buy together, kept per network across reloads.
+export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { network } = useNetwork();
+  const [carts, setCarts] = useState<Carts>(loadCarts);
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(carts));
+  }, [carts]);
+
+  const items = useMemo(() => carts[network] ?? [], [carts, network]);
+
+  const change = useCallback(
+    (update: (items: CartItem[]) => CartItem[]) =>
+      setCarts((current) => ({ ...current, [network]: update(current[network] ?? []) })),
+    [network]
+  );
+
+  const add = useCallback(
+    (nft: NFT) => change((items) => (items.some((item) => item.id === nft.id) ? items : [...items, toCartItem(nft)])),
+    [change]
+  );
+  const remove = useCallback((nftId: number) => change((items) => items.filter((item) => item.id !== nftId)), [change]);
+  const update = useCallback(
+    (next: CartItem) => change((items) => items.map((item) => (item.id === next.id ? next : item))),
+    [change]
+  );
+  const clear = useCallback(() => change(() => []), [change]);
+  const contains = useCallback((nftId: number) => items.some((item) => item.id === nftId), [items]);
+
+  const value = useMemo(
+    () => ({ items, add, remove, update, clear, contains }),
+    [items, add, remove, update, clear, contains]
+  );
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+};
+
+export const useCart = (): CartContextValue => {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider");
+  }
+  return context;
+};
@@ -0,0 +1,58 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from "react";
+import { useNetwork } from "./NetworkContext";
+import { clockOffsetMs } from "../utils/countdown";
+
+const SYNC_INTERVAL_MS = 60000;
+
+interface ChainClockContextValue {
+  // Milliseconds to add to Date.now() to get the ledger time. 0 until synced.
+  offsetMs: number;
+}
+
+const ChainClockContext = createContext<ChainClockContextValue | null>(null);
+
+// Keeps the local clock in line with the ledger timestamp, which is what the
+// contract compares auction end times against.
+export const ChainClockProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { client } = useNetwork();
+  const [offsetMs, setOffsetMs] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const sync = async () => {
+      try {
+        const sentAt = Date.now();
+        const { ledger_timestamp } = await client.getLedgerInfo();
+        if (!cancelled) setOffsetMs(clockOffsetMs(ledger_timestamp, sentAt, Date.now()));
+      } catch (error) {
+        console.error("Error syncing with the ledger clock:", error);
+      }
+    };
+    sync();
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [client]);
+
+  const value = useMemo(() => ({ offsetMs }), [offsetMs]);
+
+  return <ChainClockContext.Provider value={value}>{children}</ChainClockContext.Provider>;
+};
+
+// The current ledger time in Unix ms, re-rendering every `tickMs`.
+export const useChainNow = (tickMs = 1000): number => {
+  const context = useContext(ChainClockContext);
+  if (!context) {
+    throw new Error("useChainNow must be used within a ChainClockProvider");
+  }
+  const [localNow, setLocalNow] = useState(Date.now);
+
+  useEffect(() => {
+    const interval = setInterval(() => setLocalNow(Date.now()), tickMs);
+    return () => clearInterval(interval);
+  }, [tickMs]);
+
+  return localNow + context.offsetMs;
+};
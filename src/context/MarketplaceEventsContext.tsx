@@ -0,0 +1,69 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef } from "react";
+import { MarketplaceEvent, MarketplaceEventListener, MarketplaceEventPoller } from "../services/marketplaceEvents";
+import { queryKeys } from "../services/queryCache";
+import { useNetwork } from "./NetworkContext";
+import { useQueryCache } from "./QueryCacheContext";
+
+const MarketplaceEventsContext = createContext<MarketplaceEventPoller | null>(null);
+
+export const MarketplaceEventsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const cache = useQueryCache();
+  const poller = useMemo(() => new MarketplaceEventPoller(marketplace), [marketplace]);
+
+  // Collections and NFT details aren't patched by any page, so mark them stale
+  // for the next time they are shown. Market and auction pages handle their own.
+  useEffect(
+    () =>
+      poller.subscribe((event: MarketplaceEvent) => {
+        // Collection stats depend on every price and owner.
+        if (event.kind !== "bid") {
+          cache.invalidate(queryKeys.collections(marketplaceAddr));
+        }
+        switch (event.kind) {
+          case "listed":
+            cache.invalidate(queryKeys.nft(marketplaceAddr, event.nftId));
+            cache.invalidate(queryKeys.owner(marketplaceAddr, event.seller));
+            break;
+          case "purchased":
+            // Offers on an NFT are dropped when it changes hands.
+            cache.invalidate(queryKeys.offers(marketplaceAddr));
+            cache.invalidate(queryKeys.nft(marketplaceAddr, event.nftId));
+            cache.invalidate(queryKeys.owner(marketplaceAddr, event.seller));
+            cache.invalidate(queryKeys.owner(marketplaceAddr, event.buyer));
+            cache.invalidate(queryKeys.sales(marketplaceAddr));
+            break;
+          case "auctionCreated":
+          case "auctionSettled":
+            cache.invalidate(queryKeys.nft(marketplaceAddr, event.nftId));
+            cache.invalidate(queryKeys.owner(marketplaceAddr, event.seller));
+            if (event.kind === "auctionSettled" && event.winner) {
+              cache.invalidate(queryKeys.offers(marketplaceAddr));
+              cache.invalidate(queryKeys.owner(marketplaceAddr, event.winner));
+              cache.invalidate(queryKeys.sales(marketplaceAddr));
+            }
+            break;
+          case "fused":
+            event.burnedIds.forEach((id) => cache.invalidate(queryKeys.nft(marketplaceAddr, id)));
+            cache.invalidate(queryKeys.offers(marketplaceAddr));
+            cache.invalidate(queryKeys.owner(marketplaceAddr, event.owner));
+            break;
+        }
+      }),
+    [poller, cache, marketplaceAddr]
+  );
+
+  return <MarketplaceEventsContext.Provider value={poller}>{children}</MarketplaceEventsContext.Provider>;
+};
+
+// Calls `listener` with every marketplace event emitted while the component is mounted.
+export const useMarketplaceEvents = (listener: MarketplaceEventListener) => {
+  const poller = useContext(MarketplaceEventsContext);
+  if (!poller) {
+    throw new Error("useMarketplaceEvents must be used within a MarketplaceEventsProvider");
+  }
+  const latest = useRef(listener);
+  latest.current = listener;
+
+  useEffect(() => poller.subscribe((event) => latest.current(event)), [poller]);
+};
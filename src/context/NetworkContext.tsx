@@ -0,0 +1,68 @@
+import React, { createContext, useCallback, useContext, useMemo, useState } from "react";
+import { AptosClient } from "aptos";
+import { DEFAULT_NETWORK, NETWORKS, NetworkConfig, NetworkName, isDeployed, parseNetworkName } from "../config";
+import { GraphQLClient } from "graphql-request";
+import MarketplaceClient from "../services/marketplaceClient";
+import { NftDataSource, ViewNftDataSource } from "../services/nftDataSource";
+import { IndexerNftDataSource } from "../services/indexerDataSource";
+
+const STORAGE_KEY = "nft-marketplace:network";
+
+interface NetworkContextValue {
+  network: NetworkName;
+  config: NetworkConfig;
+  client: AptosClient;
+  marketplace: MarketplaceClient;
+  marketplaceAddr: string;
+  // Paginated NFT and auction queries, served by the indexer when configured.
+  dataSource: NftDataSource;
+  setNetwork: (network: NetworkName) => void;
+}
+
+const NetworkContext = createContext<NetworkContextValue | null>(null);
+
+const loadNetwork = (): NetworkName => {
+  const stored = parseNetworkName(window.localStorage.getItem(STORAGE_KEY));
+  return stored && isDeployed(stored) ? stored : DEFAULT_NETWORK;
+};
+
+export const NetworkProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [network, setNetworkState] = useState<NetworkName>(loadNetwork);
+
+  const setNetwork = useCallback((next: NetworkName) => {
+    if (!isDeployed(next)) return;
+    window.localStorage.setItem(STORAGE_KEY, next);
+    setNetworkState(next);
+  }, []);
+
+  const value = useMemo<NetworkContextValue>(() => {
+    const config = NETWORKS[network];
+    const client = new AptosClient(config.fullnodeUrl);
+    // Only networks with a deployment can be selected, see setNetwork above.
+    const marketplaceAddr = config.marketplaceAddr!;
+    const marketplace = new MarketplaceClient(client, marketplaceAddr);
+    const dataSource = config.indexerUrl
+      ? new IndexerNftDataSource(new GraphQLClient(config.indexerUrl), marketplaceAddr)
+      : new ViewNftDataSource(marketplace);
+
+    return {
+      network,
+      config,
+      client,
+      marketplace,
+      marketplaceAddr,
+      dataSource,
+      setNetwork,
+    };
+  }, [network, setNetwork]);
+
+  return <NetworkContext.Provider value={value}>{children}</NetworkContext.Provider>;
+};
+
+export const useNetwork = (): NetworkContextValue => {
+  const context = useContext(NetworkContext);
+  if (!context) {
+    throw new Error("useNetwork must be used within a NetworkProvider");
+  }
+  return context;
+};
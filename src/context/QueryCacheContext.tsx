@@ -0,0 +1,26 @@
+import React, { createContext, useContext, useState } from "react";
+import { QueryCache } from "../services/queryCache";
+import { useNetwork } from "./NetworkContext";
+
+const QueryCacheContext = createContext<QueryCache | null>(null);
+
+const QueryCacheScope: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [cache] = useState(() => new QueryCache());
+
+  return <QueryCacheContext.Provider value={cache}>{children}</QueryCacheContext.Provider>;
+};
+
+export const QueryCacheProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { network } = useNetwork();
+  // Deployments may share an address across networks, so a switch remounts
+  // everything below with a fresh cache.
+  return <QueryCacheScope key={network}>{children}</QueryCacheScope>;
+};
+
+export const useQueryCache = (): QueryCache => {
+  const context = useContext(QueryCacheContext);
+  if (!context) {
+    throw new Error("useQueryCache must be used within a QueryCacheProvider");
+  }
+  return context;
+};
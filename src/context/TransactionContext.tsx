@@ -0,0 +1,221 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { notification } from "antd";
+import { AptosClient, FailedTransactionError, Types } from "aptos";
+import { InputTransactionData, useWallet } from "@aptos-labs/wallet-adapter-react";
+import { NETWORKS, NetworkName, explorerTxnUrl } from "../config";
+import { TransactionSigner } from "../services/marketplaceClient";
+import { describeTransactionError, describeVmStatus } from "../services/marketplaceErrors";
+import { QueryKey } from "../services/queryCache";
+import { sameAddress } from "../utils/address";
+import { MoveAbort, parseMoveAbort } from "../utils/vmStatus";
+import { useNetwork } from "./NetworkContext";
+import { useQueryCache } from "./QueryCacheContext";
+
+const STORAGE_KEY = "nft-marketplace:transactions";
+const MAX_HISTORY = 50;
+
+export type TransactionStatus = "signing" | "submitted" | "executing" | "success" | "aborted" | "failed";
+
+export interface TrackedTransaction {
+  id: string;
+  label: string;
+  network: NetworkName;
+  sender?: string;
+  hash?: string;
+  status: TransactionStatus;
+  vmStatus?: string;
+  abort?: MoveAbort;
+  error?: string;
+  createdAt: number;
+}
+
+export const isPending = (txn: TrackedTransaction) =>
+  txn.status === "signing" || txn.status === "submitted" || txn.status === "executing";
+
+// Whether `txn` belongs in the history shown for `network` and the connected
+// account. Transactions from before a wallet was connected show for everyone.
+export const isInHistoryOf = (txn: TrackedTransaction, network: NetworkName, account: string | undefined) =>
+  txn.network === network && (!txn.sender || !account || sameAddress(txn.sender, account));
+
+interface TransactionContextValue {
+  transactions: TrackedTransaction[];
+  // `invalidates` lists the cached queries the transaction changes; they are
+  // refetched once it is committed, even if it aborted.
+  execute: (
+    label: string,
+    run: (signer: TransactionSigner) => Promise<Types.Transaction>,
+    invalidates?: QueryKey[]
+  ) => Promise<Types.Transaction>;
+  // Clears the finished transactions of the current network and account.
+  clearHistory: () => void;
+}
+
+const TransactionContext = createContext<TransactionContextValue | null>(null);
+
+const loadHistory = (): TrackedTransaction[] => {
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const ExplorerLink: React.FC<{ txn: TrackedTransaction }> = ({ txn }) =>
+  txn.hash ? (
+    <a href={explorerTxnUrl(txn.network, txn.hash)} target="_blank" rel="noopener noreferrer">
+      View on explorer
+    </a>
+  ) : null;
+
+const notify = (txn: TrackedTransaction) => {
+  const key = txn.id;
+  switch (txn.status) {
+    case "submitted":
+    case "executing":
+      notification.info({ key, message: `${txn.label}: pending`, description: <ExplorerLink txn={txn} />, duration: 0 });
+      break;
+    case "success":
+      notification.success({ key, message: `${txn.label}: confirmed`, description: <ExplorerLink txn={txn} /> });
+      break;
+    case "aborted":
+      notification.error({
+        key,
+        message: `${txn.label}: aborted`,
+        description: (
+          <>
+            <div>{txn.error}</div>
+            <ExplorerLink txn={txn} />
+          </>
+        ),
+      });
+      break;
+    case "failed":
+      notification.error({ key, message: `${txn.label}: failed`, description: txn.error });
+      break;
+  }
+};
+
+// The adapter takes the SDK v2 payload shape rather than the `entry_function_payload` JSON.
+const toInputTransaction = (payload: Types.TransactionPayload): InputTransactionData => {
+  const entry = payload as Types.TransactionPayload_EntryFunctionPayload;
+  return {
+    data: {
+      function: entry.function as `${string}::${string}::${string}`,
+      typeArguments: entry.type_arguments,
+      functionArguments: entry.arguments,
+    },
+  };
+};
+
+// The outcome of a committed transaction, as far as the tracker is concerned.
+const settle = (txn: Types.Transaction): Partial<TrackedTransaction> => {
+  if (!("success" in txn)) return { status: "executing" };
+  if (txn.success) return { status: "success", vmStatus: txn.vm_status };
+  return {
+    status: "aborted",
+    vmStatus: txn.vm_status,
+    abort: parseMoveAbort(txn.vm_status) ?? undefined,
+    error: describeVmStatus(txn.vm_status),
+  };
+};
+
+export const TransactionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { account, connected, signAndSubmitTransaction } = useWallet();
+  const { client, network } = useNetwork();
+  const cache = useQueryCache();
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(loadHistory);
+  const resumed = useRef(false);
+  // Last status we showed a toast for, seeded so reloading the page stays quiet.
+  const notified = useRef(new Map(transactions.map((txn) => [txn.id, txn.status])));
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions.slice(0, MAX_HISTORY)));
+    transactions.forEach((txn) => {
+      if (notified.current.get(txn.id) === txn.status) return;
+      notified.current.set(txn.id, txn.status);
+      notify(txn);
+    });
+  }, [transactions]);
+
+  // `from` guards against a slow status check overwriting a newer status.
+  const update = useCallback((id: string, changes: Partial<TrackedTransaction>, from?: TransactionStatus) => {
+    setTransactions((current) =>
+      current.map((txn) => (txn.id === id && (!from || txn.status === from) ? { ...txn, ...changes } : txn))
+    );
+  }, []);
+
+  // Pick up transactions that were still pending when the page was reloaded.
+  useEffect(() => {
+    if (resumed.current) return;
+    resumed.current = true;
+    transactions.filter((txn) => isPending(txn)).forEach((txn) => {
+      if (!txn.hash) {
+        update(txn.id, { status: "failed", error: "The page was closed before the transaction was submitted." });
+        return;
+      }
+      new AptosClient(NETWORKS[txn.network].fullnodeUrl)
+        .waitForTransactionWithResult(txn.hash)
+        .then((result) => update(txn.id, settle(result)))
+        .catch((error) => update(txn.id, { status: "failed", error: describeTransactionError(error) }));
+    });
+  }, [transactions, update]);
+
+  const execute = useCallback<TransactionContextValue["execute"]>(
+    async (label, run, invalidates) => {
+      const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      setTransactions((current) =>
+        [{ id, label, network, sender: account?.address, status: "signing" as const, createdAt: Date.now() }, ...current].slice(
+          0,
+          MAX_HISTORY
+        )
+      );
+
+      const signer: TransactionSigner = async (payload) => {
+        if (!connected) {
+          throw new Error("Please connect your wallet first.");
+        }
+        const response = await signAndSubmitTransaction(toInputTransaction(payload));
+        update(id, { hash: response.hash, status: "submitted" });
+        client
+          .getTransactionByHash(response.hash)
+          .then((txn) => txn.type === "pending_transaction" && update(id, { status: "executing" }, "submitted"))
+          .catch(() => undefined);
+        return response;
+      };
+
+      const invalidate = () => invalidates?.forEach((key) => cache.invalidate(key));
+
+      try {
+        const txn = await run(signer);
+        update(id, settle(txn));
+        invalidate();
+        return txn;
+      } catch (error: unknown) {
+        if (error instanceof FailedTransactionError) {
+          update(id, settle(error.transaction));
+          invalidate();
+        } else {
+          update(id, { status: "failed", error: describeTransactionError(error) });
+        }
+        throw error;
+      }
+    },
+    [account?.address, connected, signAndSubmitTransaction, client, network, cache, update]
+  );
+
+  const clearHistory = useCallback(() => {
+    setTransactions((current) => current.filter((txn) => isPending(txn) || !isInHistoryOf(txn, network, account?.address)));
+  }, [network, account?.address]);
+
+  const value = useMemo(() => ({ transactions, execute, clearHistory }), [transactions, execute, clearHistory]);
+
+  return <TransactionContext.Provider value={value}>{children}</TransactionContext.Provider>;
+};
+
+export const useTransactions = (): TransactionContextValue => {
+  const context = useContext(TransactionContext);
+  if (!context) {
+    throw new Error("useTransactions must be used within a TransactionProvider");
+  }
+  return context;
+};
@@ -0,0 +1,72 @@
+import { useCallback, useState } from "react";
+import { useNetwork } from "../context/NetworkContext";
+import { useTransactions } from "../context/TransactionContext";
+import { describeTransactionError, isUserRejection } from "../services/marketplaceErrors";
+import { queryKeys } from "../services/queryCache";
+import { formatApt } from "../utils/amount";
+import { BulkJob, retryableJobs } from "../utils/bulkListing";
+
+export type BulkListingKind = "list" | "auction";
+
+// Lists NFTs or puts them up for auction one transaction at a time. A failed
+// job doesn't stop the queue; rejecting one in the wallet does, and the rest
+// are skipped. `retry` sends the failed and skipped jobs again.
+export const useBulkListing = () => {
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const { execute } = useTransactions();
+  const [jobs, setJobs] = useState<BulkJob[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const setJob = (id: number, changes: Partial<BulkJob>) =>
+    setJobs((current) => current.map((job) => (job.nft.id === id ? { ...job, ...changes } : job)));
+
+  // `endTimeUnix` is shared by every auction in the batch.
+  const process = async (queue: BulkJob[], kind: BulkListingKind, endTimeUnix?: number) => {
+    setIsRunning(true);
+    let stopped = false;
+    for (const { nft, price } of queue) {
+      if (stopped) {
+        setJob(nft.id, { status: "skipped" });
+        continue;
+      }
+      setJob(nft.id, { status: "submitting", error: undefined });
+      try {
+        if (kind === "auction") {
+          await execute(
+            `Create auction for ${nft.name}`,
+            (signer) => marketplace.createAuction(signer, nft.id, price, endTimeUnix!),
+            [queryKeys.nft(marketplaceAddr, nft.id), queryKeys.owner(marketplaceAddr, nft.owner), queryKeys.auctions(marketplaceAddr)]
+          );
+        } else {
+          await execute(
+            `List ${nft.name} for ${formatApt(price)}`,
+            (signer) => marketplace.listForSale(signer, nft.id, price),
+            [queryKeys.nft(marketplaceAddr, nft.id), queryKeys.owner(marketplaceAddr, nft.owner), queryKeys.market(marketplaceAddr)]
+          );
+        }
+        setJob(nft.id, { status: "done" });
+      } catch (error) {
+        console.error(`Error listing ${nft.name}:`, error);
+        setJob(nft.id, { status: "failed", error: describeTransactionError(error) });
+        stopped = isUserRejection(error);
+      }
+    }
+    setIsRunning(false);
+  };
+
+  const start = (queue: Omit<BulkJob, "status">[], kind: BulkListingKind, endTimeUnix?: number) => {
+    const queued = queue.map((job) => ({ ...job, status: "queued" as const }));
+    setJobs(queued);
+    return process(queued, kind, endTimeUnix);
+  };
+
+  const retry = (kind: BulkListingKind, endTimeUnix?: number) => {
+    const queue = retryableJobs(jobs);
+    queue.forEach((job) => setJob(job.nft.id, { status: "queued", error: undefined }));
+    return process(queue, kind, endTimeUnix);
+  };
+
+  const reset = useCallback(() => setJobs([]), []);
+
+  return { jobs, isRunning, start, retry, reset };
+};
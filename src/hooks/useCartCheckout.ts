@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { useNetwork } from "../context/NetworkContext";
+import { useTransactions } from "../context/TransactionContext";
+import { useCart } from "../context/CartContext";
+import { describeTransactionError, isInsufficientBalance, isUserRejection } from "../services/marketplaceErrors";
+import { queryKeys } from "../services/queryCache";
+import { CartItem, CheckoutStep } from "../utils/cart";
+
+// Buys cart items one transaction at a time, since the contract has no batch
+// purchase. A failed purchase doesn't stop the rest; rejecting one in the
+// wallet or running out of APT does, and the remaining items are skipped.
+// Purchased items leave the cart, so a retry only covers what is left.
+export const useCartCheckout = () => {
+  const { account } = useWallet();
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const { execute } = useTransactions();
+  const { remove } = useCart();
+  const [steps, setSteps] = useState<CheckoutStep[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const setStep = (id: number, changes: Partial<CheckoutStep>) =>
+    setSteps((current) => current.map((step) => (step.item.id === id ? { ...step, ...changes } : step)));
+
+  const checkout = async (items: CartItem[]) => {
+    setSteps(items.map((item) => ({ item, status: "queued" })));
+    setIsRunning(true);
+    let stopped = false;
+    for (const item of items) {
+      if (stopped) {
+        setStep(item.id, { status: "skipped" });
+        continue;
+      }
+      setStep(item.id, { status: "purchasing" });
+      try {
+        await execute(
+          `Purchase ${item.name}`,
+          (signer) => marketplace.purchaseNft(signer, item.id, item.price),
+          [
+            queryKeys.nft(marketplaceAddr, item.id),
+            queryKeys.market(marketplaceAddr),
+            queryKeys.owner(marketplaceAddr, item.owner),
+            ...(account ? [queryKeys.owner(marketplaceAddr, account.address)] : []),
+          ]
+        );
+        setStep(item.id, { status: "purchased" });
+        remove(item.id);
+      } catch (error) {
+        console.error(`Error purchasing ${item.name}:`, error);
+        setStep(item.id, { status: "failed", error: describeTransactionError(error) });
+        stopped = isUserRejection(error) || isInsufficientBalance(error);
+      }
+    }
+    setIsRunning(false);
+  };
+
+  const reset = () => setSteps([]);
+
+  return { steps, isRunning, checkout, reset };
+};
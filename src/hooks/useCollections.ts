@@ -0,0 +1,14 @@
+import { useNetwork } from "../context/NetworkContext";
+import { queryKeys } from "../services/queryCache";
+import { useQuery } from "./useQuery";
+
+// Every collection with its stats, aggregated by the data source. Collection
+// pages share this one query.
+export const useCollections = () => {
+  const { marketplaceAddr, dataSource } = useNetwork();
+  const { data, error, isLoading } = useQuery([...queryKeys.collections(marketplaceAddr), "summaries"], () =>
+    dataSource.getCollections()
+  );
+
+  return { collections: data, error, isLoading };
+};
@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { Types } from "aptos";
+import { useNetwork } from "../context/NetworkContext";
+import { useTransactions } from "../context/TransactionContext";
+import { Auction, NFT, TransactionSigner } from "../services/marketplaceClient";
+import { QueryKey, queryKeys } from "../services/queryCache";
+import { useModuleFunctions } from "./useModuleFunctions";
+
+// Takes an NFT off the market or out of an auction through the transaction
+// tracker, which reports the outcome. Each resolves to whether it succeeded.
+// `supported` says which listing changes the deployed module allows, updating
+// a price included; the others' buttons are hidden.
+export const useListingActions = () => {
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const { execute } = useTransactions();
+  const [pendingNftId, setPendingNftId] = useState<number | null>(null);
+  const hasFunction = useModuleFunctions();
+  const supported = {
+    cancelListing: hasFunction("cancel_listing"),
+    updatePrice: hasFunction("update_price"),
+    cancelAuction: hasFunction("cancel_auction"),
+  };
+
+  const run = async (
+    nftId: number,
+    label: string,
+    action: (signer: TransactionSigner) => Promise<Types.Transaction>,
+    invalidates: QueryKey[]
+  ) => {
+    setPendingNftId(nftId);
+    try {
+      await execute(label, action, invalidates);
+      return true;
+    } catch (error) {
+      console.error(`Error running "${label}":`, error);
+      return false;
+    } finally {
+      setPendingNftId(null);
+    }
+  };
+
+  const cancelListing = (nft: NFT) =>
+    run(nft.id, `Cancel listing: ${nft.name}`, (signer) => marketplace.cancelListing(signer, nft.id), [
+      queryKeys.nft(marketplaceAddr, nft.id),
+      queryKeys.owner(marketplaceAddr, nft.owner),
+      queryKeys.market(marketplaceAddr),
+    ]);
+
+  const cancelAuction = (auction: Auction) =>
+    run(auction.nftId, `Cancel auction: ${auction.nftDetails.name}`, (signer) => marketplace.cancelAuction(signer, auction.id), [
+      queryKeys.nft(marketplaceAddr, auction.nftId),
+      queryKeys.owner(marketplaceAddr, auction.seller),
+      queryKeys.auctions(marketplaceAddr),
+    ]);
+
+  return { cancelListing, cancelAuction, pendingNftId, supported };
+};
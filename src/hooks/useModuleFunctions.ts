@@ -0,0 +1,15 @@
+import { useNetwork } from "../context/NetworkContext";
+import { queryKeys } from "../services/queryCache";
+import { useQuery } from "./useQuery";
+
+// Whether the deployed marketplace module defines a function. Until its ABI
+// has loaded nothing counts as defined, so features behind a missing function
+// never flash up and disappear.
+export const useModuleFunctions = () => {
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const { data: functions } = useQuery(queryKeys.moduleFunctions(marketplaceAddr), () => marketplace.getModuleFunctions(), {
+    staleTime: Infinity,
+  });
+
+  return (name: string) => functions?.has(name) ?? false;
+};
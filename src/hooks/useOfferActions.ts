@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { Types } from "aptos";
+import { useNetwork } from "../context/NetworkContext";
+import { useTransactions } from "../context/TransactionContext";
+import { Offer, TransactionSigner } from "../services/marketplaceClient";
+import { QueryKey, queryKeys } from "../services/queryCache";
+import { formatApt } from "../utils/amount";
+import { useModuleFunctions } from "./useModuleFunctions";
+
+// Responds to offers through the transaction tracker, which reports the
+// outcome. Each action resolves to whether it succeeded. `supported` says which
+// of them the deployed module defines; the others' buttons are hidden.
+export const useOfferActions = () => {
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const { execute } = useTransactions();
+  const [pendingOfferId, setPendingOfferId] = useState<number | null>(null);
+  const hasFunction = useModuleFunctions();
+  const supported = {
+    accept: hasFunction("accept_offer"),
+    acceptCounter: hasFunction("accept_counter_offer"),
+    reject: hasFunction("reject_offer"),
+    cancel: hasFunction("cancel_offer"),
+    counter: hasFunction("counter_offer"),
+  };
+
+  const run = async (
+    offer: Offer,
+    label: string,
+    action: (signer: TransactionSigner) => Promise<Types.Transaction>,
+    invalidates: QueryKey[] = [queryKeys.offers(marketplaceAddr)]
+  ) => {
+    setPendingOfferId(offer.id);
+    try {
+      await execute(label, action, invalidates);
+      return true;
+    } catch (error) {
+      console.error(`Error running "${label}":`, error);
+      return false;
+    } finally {
+      setPendingOfferId(null);
+    }
+  };
+
+  // A sale moves the NFT and takes it off the market if it was listed.
+  const saleInvalidates = (offer: Offer) => [
+    queryKeys.offers(marketplaceAddr),
+    queryKeys.nft(marketplaceAddr, offer.nftId),
+    queryKeys.owner(marketplaceAddr, offer.owner),
+    queryKeys.owner(marketplaceAddr, offer.offerer),
+    queryKeys.market(marketplaceAddr),
+  ];
+
+  const accept = (offer: Offer) =>
+    run(
+      offer,
+      `Accept ${formatApt(offer.amount)} for ${offer.nftDetails.name}`,
+      (signer) => marketplace.acceptOffer(signer, offer.id),
+      saleInvalidates(offer)
+    );
+
+  const acceptCounter = (offer: Offer) =>
+    run(
+      offer,
+      `Accept counter of ${formatApt(offer.counterAmount!)} for ${offer.nftDetails.name}`,
+      (signer) => marketplace.acceptCounterOffer(signer, offer.id, offer.counterAmount!),
+      saleInvalidates(offer)
+    );
+
+  const reject = (offer: Offer) =>
+    run(offer, `Reject offer on ${offer.nftDetails.name}`, (signer) => marketplace.rejectOffer(signer, offer.id));
+
+  const cancel = (offer: Offer) =>
+    run(offer, `Cancel offer on ${offer.nftDetails.name}`, (signer) => marketplace.cancelOffer(signer, offer.id));
+
+  const counter = (offer: Offer, amountOctas: bigint) =>
+    run(offer, `Counter ${formatApt(amountOctas)} for ${offer.nftDetails.name}`, (signer) =>
+      marketplace.counterOffer(signer, offer.id, amountOctas)
+    );
+
+  return { accept, acceptCounter, reject, cancel, counter, pendingOfferId, supported };
+};
@@ -0,0 +1,18 @@
+import { useNetwork } from "../context/NetworkContext";
+import { PriceRecord } from "../services/priceHistory";
+import { queryKeys } from "../services/queryCache";
+import { useQuery } from "./useQuery";
+
+const NO_SALES = new Map<number, PriceRecord>();
+
+// What buyers judge a price against: the cheapest listing per rarity and the
+// last sale of each of `nftIds`, e.g. the NFTs on the current page.
+export const usePriceReferences = (nftIds: number[] = []) => {
+  const { marketplaceAddr, dataSource } = useNetwork();
+  const { data: floors } = useQuery([...queryKeys.market(marketplaceAddr), "floors"], () => dataSource.getFloors());
+  const { data: lastSales } = useQuery(nftIds.length ? [...queryKeys.sales(marketplaceAddr), "last", nftIds] : null, () =>
+    dataSource.getLastSales(nftIds)
+  );
+
+  return { floors: floors ?? {}, lastSales: lastSales ?? NO_SALES };
+};
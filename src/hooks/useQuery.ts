@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useReducer, useRef } from "react";
+import { useQueryCache } from "../context/QueryCacheContext";
+import { QueryKey, hashKey } from "../services/queryCache";
+
+export interface QueryOptions {
+  // How long fetched data counts as fresh. Stale data is still shown while it refetches.
+  staleTime?: number;
+  refetchInterval?: number;
+  // Keep showing the last key's data while a new key loads, e.g. across pages.
+  keepPreviousData?: boolean;
+}
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  isLoading: boolean; // No data to show yet
+  isFetching: boolean;
+  refetch: () => Promise<T | undefined>;
+}
+
+const DEFAULT_STALE_TIME = 30000;
+
+// Reads `key` through the shared query cache. Pass a null key to skip the query,
+// e.g. until a wallet is connected.
+export const useQuery = <T>(
+  key: QueryKey | null,
+  fetcher: () => Promise<T>,
+  { staleTime = DEFAULT_STALE_TIME, refetchInterval, keepPreviousData }: QueryOptions = {}
+): QueryResult<T> => {
+  const cache = useQueryCache();
+  const [, rerender] = useReducer((count: number) => count + 1, 0);
+  const hash = key ? hashKey(key) : null;
+  // The key and fetcher are rebuilt every render; the hash says when they change.
+  const latest = useRef({ key, fetcher });
+  const previousData = useRef<T | undefined>(undefined);
+  latest.current = { key, fetcher };
+
+  const revalidate = useCallback(
+    async (force = false) => {
+      const { key, fetcher } = latest.current;
+      if (!key) return undefined;
+      try {
+        return await cache.fetch(key, fetcher, force ? 0 : staleTime);
+      } catch (error) {
+        console.error("Query failed:", key, error);
+        return undefined;
+      }
+    },
+    [cache, staleTime]
+  );
+
+  useEffect(() => {
+    const { key } = latest.current;
+    if (!key) return;
+    const unsubscribe = cache.subscribe(key, () => {
+      rerender();
+      const entry = cache.get(key);
+      if (entry?.invalidated && !entry.promise && !entry.error) revalidate();
+    });
+    revalidate();
+    rerender(); // Show the in-flight state the fetch just recorded
+    return unsubscribe;
+  }, [cache, hash, revalidate]);
+
+  useEffect(() => {
+    if (!hash || !refetchInterval) return;
+    const interval = setInterval(() => revalidate(true), refetchInterval);
+    return () => clearInterval(interval);
+  }, [hash, refetchInterval, revalidate]);
+
+  const entry = key ? cache.get<T>(key) : undefined;
+  if (entry?.data !== undefined) previousData.current = entry.data;
+  const data = entry?.data ?? (keepPreviousData && key ? previousData.current : undefined);
+  return {
+    data,
+    error: entry?.error,
+    isLoading: !!key && data === undefined && !entry?.error,
+    isFetching: !!entry?.promise,
+    refetch: useCallback(() => revalidate(true), [revalidate]),
+  };
+};
@@ -0,0 +1,42 @@
+import { useState } from "react";
+import { useNetwork } from "../context/NetworkContext";
+import { useTransactions } from "../context/TransactionContext";
+import { Auction } from "../services/marketplaceClient";
+import { queryKeys } from "../services/queryCache";
+import { useModuleFunctions } from "./useModuleFunctions";
+import { hasBids, settlementLabels, SettlementAction } from "../utils/settlement";
+
+// Finalizes an ended auction through the transaction tracker, which reports
+// the outcome. Resolves to whether it succeeded. `canSettle` is false when the
+// deployed module has no `finalize_auction`, and settling isn't offered then.
+export const useSettleAuction = () => {
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const { execute } = useTransactions();
+  const [settlingId, setSettlingId] = useState<number | null>(null);
+  const hasFunction = useModuleFunctions();
+  const canSettle = hasFunction("finalize_auction");
+
+  const settle = async (auction: Auction, action: SettlementAction) => {
+    setSettlingId(auction.id);
+    try {
+      await execute(
+        `${settlementLabels[action]}: ${auction.nftDetails.name}`,
+        (signer) => marketplace.finalizeAuction(signer, auction.id),
+        [
+          queryKeys.auctions(marketplaceAddr),
+          queryKeys.nft(marketplaceAddr, auction.nftId),
+          queryKeys.owner(marketplaceAddr, auction.seller),
+          ...(hasBids(auction) ? [queryKeys.owner(marketplaceAddr, auction.highestBidder)] : []),
+        ]
+      );
+      return true;
+    } catch (error) {
+      console.error("Error settling auction:", error);
+      return false;
+    } finally {
+      setSettlingId(null);
+    }
+  };
+
+  return { settle, settlingId, canSettle };
+};
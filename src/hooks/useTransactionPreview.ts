@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { Types } from "aptos";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { useNetwork } from "../context/NetworkContext";
+import { SimulationResult } from "../services/marketplaceClient";
+import { describeTransactionError, describeVmStatus } from "../services/marketplaceErrors";
+import { Octas } from "../utils/amount";
+import { toOctas } from "../utils/codec";
+
+export interface TransactionPreview {
+  isLoading: boolean;
+  simulation: SimulationResult | null;
+  balance: bigint | null;
+  totalCost: bigint | null; // Amount plus gas fee, in octas
+  remainingBalance: bigint | null;
+  // Why the transaction is predicted to fail, if it is.
+  predictedError: string | null;
+  // Set when the preview itself couldn't be produced; signing is still allowed.
+  unavailableReason: string | null;
+}
+
+const EMPTY_PREVIEW: TransactionPreview = {
+  isLoading: false,
+  simulation: null,
+  balance: null,
+  totalCost: null,
+  remainingBalance: null,
+  predictedError: null,
+  unavailableReason: null,
+};
+
+const DEBOUNCE_MS = 400;
+
+// Simulates `payload` as the connected account whenever it changes. `amount` is
+// the APT the transaction moves out of the account on top of gas (a purchase
+// price or bid), so the preview can check it against the balance.
+export const useTransactionPreview = (
+  payload: Types.TransactionPayload | null,
+  amount: Octas = BigInt(0)
+): TransactionPreview => {
+  const { account } = useWallet();
+  const { marketplace } = useNetwork();
+  const [preview, setPreview] = useState<TransactionPreview>(EMPTY_PREVIEW);
+  const amountKey = toOctas(amount).toString();
+
+  useEffect(() => {
+    if (!payload || !account) {
+      setPreview(EMPTY_PREVIEW);
+      return;
+    }
+    if (typeof account.publicKey !== "string") {
+      setPreview({ ...EMPTY_PREVIEW, unavailableReason: "Fee preview isn't available for multisig accounts." });
+      return;
+    }
+
+    let cancelled = false;
+    const sender = { address: account.address, publicKey: account.publicKey };
+    setPreview((current) => ({ ...current, isLoading: true }));
+
+    const timeout = setTimeout(async () => {
+      try {
+        const [simulation, balance] = await Promise.all([
+          marketplace.simulate(sender, payload),
+          marketplace.getAptBalance(account.address),
+        ]);
+        if (cancelled) return;
+
+        const totalCost = BigInt(amountKey) + simulation.gasFee;
+        const remainingBalance = balance - totalCost;
+        let predictedError = simulation.success ? null : describeVmStatus(simulation.vmStatus);
+        if (!predictedError && remainingBalance < BigInt(0)) {
+          predictedError = "Your APT balance is too low for this transaction.";
+        }
+
+        setPreview({ ...EMPTY_PREVIEW, simulation, balance, totalCost, remainingBalance, predictedError });
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Error simulating transaction:", error);
+        setPreview({ ...EMPTY_PREVIEW, unavailableReason: describeTransactionError(error) });
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [payload, amountKey, account, marketplace]);
+
+  return preview;
+};
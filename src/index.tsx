@@ -3,17 +3,39 @@ import ReactDOM from "react-dom/client";
 import "./index.css";
 import App from "./App";
 import { AptosWalletAdapterProvider } from "@aptos-labs/wallet-adapter-react";
-import { PetraWallet } from "petra-plugin-wallet-adapter";
-const wallets = [new PetraWallet()];
+import { NetworkProvider } from "./context/NetworkContext";
+import { QueryCacheProvider } from "./context/QueryCacheContext";
+import { MarketplaceEventsProvider } from "./context/MarketplaceEventsContext";
+import { ChainClockProvider } from "./context/ChainClockContext";
+import { TransactionProvider } from "./context/TransactionContext";
+import { CartProvider } from "./context/CartContext";
+import { dappConfig, optInWallets, walletPlugins } from "./wallets";
 const root = ReactDOM.createRoot(
   document.getElementById("root") as HTMLElement
 );
 root.render(
   <React.StrictMode>
     {" "}
-    <AptosWalletAdapterProvider plugins={wallets} autoConnect={true}>
+    <AptosWalletAdapterProvider
+      plugins={walletPlugins}
+      optInWallets={optInWallets}
+      dappConfig={dappConfig}
+      autoConnect={true}
+    >
       {" "}
-      <App />{" "}
+      <NetworkProvider>
+        <QueryCacheProvider>
+          <MarketplaceEventsProvider>
+            <TransactionProvider>
+              <ChainClockProvider>
+                <CartProvider>
+                  <App />
+                </CartProvider>
+              </ChainClockProvider>
+            </TransactionProvider>
+          </MarketplaceEventsProvider>
+        </QueryCacheProvider>
+      </NetworkProvider>{" "}
     </AptosWalletAdapterProvider>{" "}
   </React.StrictMode>
 );
@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button, Card, Col, Empty, Row, Segmented, Spin, Statistic, Table, Tag, Typography, message } from "antd";
+import { DownloadOutlined } from "@ant-design/icons";
+import { useNetwork } from "../context/NetworkContext";
+import { useChainNow } from "../context/ChainClockContext";
+import { useQuery } from "../hooks/useQuery";
+import { isSale } from "../services/priceHistory";
+import { queryKeys } from "../services/queryCache";
+import PriceChart from "../components/PriceChart";
+import { formatApt, toAptNumber } from "../utils/amount";
+import { truncateAddress } from "../utils/address";
+import {
+  ANALYTICS_WINDOWS,
+  AnalyticsWindow,
+  TraderStats,
+  averageTimeToSaleMs,
+  dailyStats,
+  dailyStatsCsv,
+  recordsInWindow,
+  topTraders,
+  windowStart,
+} from "../utils/analytics";
+import { MAX_RARITY, rarityColors, rarityLabels } from "../utils/rarity";
+
+const { Title, Text } = Typography;
+
+const ANALYTICS_STALE_TIME = 5 * 60 * 1000;
+
+const formatDuration = (ms: number) => {
+  const hours = ms / (60 * 60 * 1000);
+  return hours >= 48 ? `${(hours / 24).toFixed(1)} days` : hours >= 1 ? `${hours.toFixed(1)} hours` : `${Math.round(ms / 60000)} min`;
+};
+
+const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const Analytics: React.FC = () => {
+  const { marketplace, marketplaceAddr, dataSource } = useNetwork();
+  const now = useChainNow(60000);
+  const [timeWindow, setTimeWindow] = useState<AnalyticsWindow>("30d");
+
+  // Only moves at midnight, so the clock ticking doesn't refetch the history.
+  const from = windowStart(timeWindow, now);
+  const { data: history, error, isLoading } = useQuery(
+    [...queryKeys.analytics(marketplaceAddr), "history", from],
+    () => dataSource.getMarketHistory(from),
+    { staleTime: ANALYTICS_STALE_TIME, keepPreviousData: true }
+  );
+  // Events don't carry rarity, so it comes from the NFTs themselves.
+  const { data: nfts } = useQuery([...queryKeys.analytics(marketplaceAddr), "nfts"], () => marketplace.getMarketplaceNfts(), {
+    staleTime: ANALYTICS_STALE_TIME,
+  });
+  const { data: floors } = useQuery([...queryKeys.market(marketplaceAddr), "floors"], () => dataSource.getFloors());
+
+  useEffect(() => {
+    if (error) message.error("Failed to load marketplace activity.");
+  }, [error]);
+
+  const rarityById = useMemo(() => new Map((nfts ?? []).map((nft) => [nft.id, nft.rarity])), [nfts]);
+  const records = useMemo(() => recordsInWindow(history ?? [], timeWindow, now), [history, timeWindow, now]);
+  const days = useMemo(() => dailyStats(records, (id) => rarityById.get(id), now), [records, rarityById, now]);
+  const sales = records.filter(isSale);
+  const volume = sales.reduce((total, sale) => total + BigInt(sale.price), BigInt(0));
+  const timeToSale = averageTimeToSaleMs(records);
+  const rarities = Array.from({ length: MAX_RARITY }, (_, i) => i + 1);
+
+  const exportCsv = () => downloadCsv(`marketplace-daily-${timeWindow}.csv`, dailyStatsCsv(days));
+
+  const traderColumns = [
+    {
+      title: "Account",
+      dataIndex: "address",
+      render: (address: string) => <Link to={`/profile/${address}`}>{truncateAddress(address)}</Link>,
+    },
+    { title: "Volume", dataIndex: "volume", render: (volume: bigint) => formatApt(volume) },
+    { title: "Trades", dataIndex: "count" },
+  ];
+
+  if (isLoading) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+        <Spin size="large" />
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: "20px" }}>
+      <Title level={2} style={{ marginBottom: "20px" }}>Marketplace Analytics</Title>
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 20 }}>
+        <Segmented
+          value={timeWindow}
+          onChange={(value) => setTimeWindow(value as AnalyticsWindow)}
+          options={ANALYTICS_WINDOWS.map((option) => ({ value: option.key, label: option.label }))}
+        />
+        <Button icon={<DownloadOutlined />} onClick={exportCsv} disabled={days.length === 0}>
+          Export CSV
+        </Button>
+      </div>
+
+      <Row gutter={[16, 16]} style={{ marginBottom: 16 }}>
+        <Col xs={12} md={6}>
+          <Card><Statistic title="Volume" value={formatApt(volume)} /></Card>
+        </Col>
+        <Col xs={12} md={6}>
+          <Card><Statistic title="Sales" value={sales.length} /></Card>
+        </Col>
+        <Col xs={12} md={6}>
+          <Card><Statistic title="Listings" value={records.filter((record) => record.kind === "listed").length} /></Card>
+        </Col>
+        <Col xs={12} md={6}>
+          <Card><Statistic title="Avg. time to sale" value={timeToSale !== null ? formatDuration(timeToSale) : "—"} /></Card>
+        </Col>
+      </Row>
+
+      {days.length === 0 ? (
+        <Empty description="No marketplace activity in this window" />
+      ) : (
+        <Row gutter={[16, 16]}>
+          <Col xs={24} lg={12}>
+            <Card title="Daily volume">
+              <PriceChart points={days.map((day) => ({ time: day.day, value: toAptNumber(day.volume) }))} />
+            </Card>
+          </Col>
+          <Col xs={24} lg={12}>
+            <Card title="Daily sales">
+              <PriceChart points={days.map((day) => ({ time: day.day, value: day.sales }))} unit="sales" color="#52c41a" />
+            </Card>
+          </Col>
+          <Col xs={24}>
+            <Card title="Lowest new listing by rarity">
+              <Row gutter={[16, 16]}>
+                {rarities.map((rarity) => {
+                  const points = days
+                    .filter((day) => day.lowestListings[rarity] !== null)
+                    .map((day) => ({ time: day.day, value: toAptNumber(day.lowestListings[rarity]!) }));
+                  return (
+                    <Col xs={24} sm={12} lg={6} key={rarity}>
+                      <Tag color={rarityColors[rarity]}>{rarityLabels[rarity]}</Tag>
+                      <Statistic
+                        title="Current floor"
+                        value={floors?.[rarity] != null ? formatApt(floors[rarity]!) : "—"}
+                        valueStyle={{ fontSize: 18 }}
+                      />
+                      {points.length > 0 ? (
+                        <PriceChart points={points} height={80} compact color={rarityColors[rarity]} />
+                      ) : (
+                        <Text type="secondary">No listings in this window</Text>
+                      )}
+                    </Col>
+                  );
+                })}
+              </Row>
+            </Card>
+          </Col>
+          <Col xs={24} md={12}>
+            <Card title="Top sellers">
+              <Table<TraderStats>
+                size="small"
+                rowKey="address"
+                pagination={false}
+                dataSource={topTraders(records, "seller")}
+                columns={traderColumns}
+              />
+            </Card>
+          </Col>
+          <Col xs={24} md={12}>
+            <Card title="Top buyers">
+              <Table<TraderStats>
+                size="small"
+                rowKey="address"
+                pagination={false}
+                dataSource={topTraders(records, "buyer")}
+                columns={traderColumns}
+              />
+            </Card>
+          </Col>
+        </Row>
+      )}
+    </div>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,191 @@
+import React from "react";
+import { Link, useParams } from "react-router-dom";
+import { Alert, Card, Col, Descriptions, Empty, Row, Spin, Statistic, Table, Tag, Typography } from "antd";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { Auction } from "../services/marketplaceClient";
+import { useNetwork } from "../context/NetworkContext";
+import { useQueryCache } from "../context/QueryCacheContext";
+import { useMarketplaceEvents } from "../context/MarketplaceEventsContext";
+import { useChainNow } from "../context/ChainClockContext";
+import { useQuery } from "../hooks/useQuery";
+import { MarketplaceEvent, fetchAllEvents } from "../services/marketplaceEvents";
+import { queryKeys } from "../services/queryCache";
+import AuctionCountdown from "../components/AuctionCountdown";
+import PriceChart from "../components/PriceChart";
+import { formatApt, toAptNumber } from "../utils/amount";
+import { sameAddress, truncateAddress } from "../utils/address";
+import { BidRecord, BidSummary, BidderStanding, appendBid, summarizeBids } from "../utils/bidHistory";
+import { rarityColors, rarityLabels } from "../utils/rarity";
+
+const { Title } = Typography;
+
+type BidEvent = Extract<MarketplaceEvent, { kind: "bid" }>;
+
+const AuctionDetail: React.FC = () => {
+  const auctionId = Number(useParams().id);
+  const { account } = useWallet();
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const cache = useQueryCache();
+  const now = useChainNow();
+
+  const auctionsKey = [...queryKeys.auctions(marketplaceAddr), "all"];
+  const { data: auctions, isLoading: isLoadingAuction } = useQuery(auctionsKey, () => marketplace.getAllAuctions());
+  const auction = auctions?.find((candidate) => candidate.id === auctionId);
+
+  // Rebuilt from the bid events, which outlive the auction itself.
+  const historyKey = queryKeys.bidHistory(marketplaceAddr, auctionId);
+  const { data: history, isLoading: isLoadingHistory } = useQuery(historyKey, async () => {
+    const bids = (await fetchAllEvents(marketplace, "bid")).filter(
+      (event): event is BidEvent => event.kind === "bid" && event.auctionId === auctionId
+    );
+    const timestamps = await marketplace.getVersionTimestamps(bids.flatMap((bid) => (bid.version ? [bid.version] : [])));
+    const records = bids.map(
+      (bid): BidRecord => ({
+        bidder: bid.bidder,
+        amount: bid.amount,
+        sequenceNumber: bid.sequenceNumber,
+        timestamp: (bid.version && timestamps.get(bid.version)) || 0,
+      })
+    );
+    return summarizeBids(records);
+  });
+
+  // A new bid is patched into both queries rather than refetching every bid.
+  useMarketplaceEvents((event) => {
+    if (event.kind !== "bid" || event.auctionId !== auctionId) return;
+    cache.update<Auction[]>(auctionsKey, (current) =>
+      current.map((candidate) =>
+        candidate.id === auctionId ? { ...candidate, currentBid: event.amount, highestBidder: event.bidder } : candidate
+      )
+    );
+    // A bid whose time can't be read is kept untimed rather than given the local clock's.
+    marketplace.getVersionTimestamps(event.version ? [event.version] : []).then((times) => {
+      const timestamp = (event.version && times.get(event.version)) || 0;
+      const record = { bidder: event.bidder, amount: event.amount, sequenceNumber: event.sequenceNumber, timestamp };
+      cache.update<BidSummary>(historyKey, (current) => appendBid(current, record));
+    });
+  });
+
+  const isMine = (address: string) => sameAddress(address, account?.address);
+  const renderBidder = (bidder: string) => (
+    <>
+      {truncateAddress(bidder)} {isMine(bidder) && <Tag color="orange">You</Tag>}
+    </>
+  );
+
+  if (isLoadingAuction || isLoadingHistory) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+        <Spin size="large" />
+      </div>
+    );
+  }
+
+  const bids = history?.bids ?? [];
+
+  return (
+    <div style={{ padding: "20px" }}>
+      <Link to="/auctions">← Back to auctions</Link>
+      <Title level={2} style={{ marginTop: 8 }}>
+        {auction ? auction.nftDetails.name : `Auction #${auctionId}`}
+      </Title>
+      {!auction && (
+        <Alert
+          type="info"
+          showIcon
+          style={{ marginBottom: 20 }}
+          message="This auction has been settled or no longer exists. Its bid history is shown below."
+        />
+      )}
+
+      <Row gutter={[16, 16]}>
+        {auction && (
+          <Col xs={24} md={8}>
+            <Card cover={<img alt={auction.nftDetails.name} src={auction.nftDetails.uri} style={{ objectFit: 'cover' }} />}>
+              <Tag color={rarityColors[auction.nftDetails.rarity]}>{rarityLabels[auction.nftDetails.rarity]}</Tag>
+              <p style={{ marginTop: 8 }}>{auction.nftDetails.description}</p>
+              <Descriptions size="small" column={1}>
+                <Descriptions.Item label="Seller">{renderBidder(auction.seller)}</Descriptions.Item>
+                <Descriptions.Item label="Starting price">{formatApt(auction.startingPrice)}</Descriptions.Item>
+                <Descriptions.Item label="Time left">
+                  <AuctionCountdown endTime={auction.endTime} now={now} />
+                </Descriptions.Item>
+              </Descriptions>
+            </Card>
+          </Col>
+        )}
+        <Col xs={24} md={auction ? 16 : 24}>
+          <Row gutter={16} style={{ marginBottom: 16 }}>
+            <Col span={8}>
+              <Card>
+                <Statistic title="Current bid" value={auction ? formatApt(auction.currentBid) : "—"} />
+              </Card>
+            </Col>
+            <Col span={8}>
+              <Card>
+                <Statistic title="Bids" value={bids.length} />
+              </Card>
+            </Col>
+            <Col span={8}>
+              <Card>
+                <Statistic title="Unique bidders" value={history?.uniqueBidders ?? 0} />
+              </Card>
+            </Col>
+          </Row>
+          <Card title="Bid curve" style={{ marginBottom: 16 }}>
+            {bids.length > 0 ? (
+              <PriceChart
+                points={bids
+                  .filter((bid) => bid.timestamp > 0)
+                  .map((bid) => ({ time: bid.timestamp, value: toAptNumber(bid.amount), highlight: isMine(bid.bidder) }))}
+              />
+            ) : (
+              <Empty description="No bids yet" />
+            )}
+          </Card>
+        </Col>
+      </Row>
+
+      <Row gutter={[16, 16]} style={{ marginTop: 16 }}>
+        <Col xs={24} lg={14}>
+          <Card title="Bid history">
+            <Table<BidRecord>
+              size="small"
+              rowKey={(bid) => bid.sequenceNumber.toString()}
+              dataSource={[...bids].reverse()}
+              pagination={{ pageSize: 10 }}
+              rowClassName={(bid) => (isMine(bid.bidder) ? "ant-table-row-selected" : "")}
+              columns={[
+                {
+                  title: "Time",
+                  dataIndex: "timestamp",
+                  render: (timestamp: number) => (timestamp ? new Date(timestamp).toLocaleString() : "—"),
+                },
+                { title: "Bidder", dataIndex: "bidder", render: renderBidder },
+                { title: "Amount", dataIndex: "amount", render: (amount: string) => formatApt(amount) },
+              ]}
+            />
+          </Card>
+        </Col>
+        <Col xs={24} lg={10}>
+          <Card title="Leaderboard">
+            <Table<BidderStanding>
+              size="small"
+              rowKey="bidder"
+              dataSource={history?.leaderboard ?? []}
+              pagination={false}
+              columns={[
+                { title: "#", render: (_, __, index) => index + 1 },
+                { title: "Bidder", dataIndex: "bidder", render: renderBidder },
+                { title: "Highest bid", dataIndex: "highestBid", render: (amount: string) => formatApt(amount) },
+                { title: "Bids", dataIndex: "bidCount" },
+              ]}
+            />
+          </Card>
+        </Col>
+      </Row>
+    </div>
+  );
+};
+
+export default AuctionDetail;
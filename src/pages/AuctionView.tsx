@@ -1,81 +1,105 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Typography, Card, Row, Col, Button, Input, message, Modal, Pagination, Spin } from 'antd';
-import { AptosClient, Types } from "aptos";
+import React, { useState, useEffect } from 'react';
+import { Typography, Card, Row, Col, Button, message, Pagination, Spin, Tag, Select, Checkbox } from 'antd';
+import { Link } from "react-router-dom";
 import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { Auction } from "../services/marketplaceClient";
+import { useNetwork } from "../context/NetworkContext";
+import { useQueryCache } from "../context/QueryCacheContext";
+import { useMarketplaceEvents } from "../context/MarketplaceEventsContext";
+import { useChainNow } from "../context/ChainClockContext";
+import AuctionCountdown from "../components/AuctionCountdown";
+import BidModal from "../components/BidModal";
+import { useQuery } from "../hooks/useQuery";
+import { useSettleAuction } from "../hooks/useSettleAuction";
+import { fetchAllEvents } from "../services/marketplaceEvents";
+import { AuctionSort, Page, paginationTotal } from "../services/nftDataSource";
+import { queryKeys } from "../services/queryCache";
+import { compareOctas, formatApt } from "../utils/amount";
+import { sameAddress, truncateAddress } from "../utils/address";
+import { ENDING_SOON_MS, isAuctionEnded } from "../utils/countdown";
+import { settlementAction, settlementLabels } from "../utils/settlement";
+import { bidBlockedReason } from "../utils/bidRules";
 
 const { Title } = Typography;
+
 const { Meta } = Card;
 
-const client = new AptosClient("https://fullnode.testnet.aptoslabs.com/v1");
-
-interface Auction {
-  id: number;
-  nftId: number;
-  seller: string;
-  startingPrice: number;
-  currentBid: number;
-  highestBidder: string;
-  endTime: number;
-  nftDetails: {
-    name: string;
-    description: string;
-    uri: string;
-    rarity: number;
-  };
-}
+// `bids` with `amount` as the bid on `auctionId` if it beats the one there.
+const withBid = (bids: Map<number, string>, auctionId: number, amount: string) => {
+  const previous = bids.get(auctionId);
+  return !previous || compareOctas(amount, previous) > 0 ? new Map(bids).set(auctionId, amount) : bids;
+};
 
-const AuctionView: React.FC<{ marketplaceAddr: string }> = ({ marketplaceAddr }) => {
-  const [auctions, setAuctions] = useState<Auction[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+const AuctionView: React.FC = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const [selectedAuction, setSelectedAuction] = useState<Auction | null>(null);
-  const [bidAmount, setBidAmount] = useState<string>("");
   const [isBidModalVisible, setIsBidModalVisible] = useState(false);
+  const [outbidIds, setOutbidIds] = useState<number[]>([]);
+  const [sortBy, setSortBy] = useState<AuctionSort | undefined>(undefined);
+  const [endingSoonOnly, setEndingSoonOnly] = useState(false);
   const { account } = useWallet();
   const pageSize = 8;
 
-  const fetchAuctions = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const response = await client.view({
-        function: `${marketplaceAddr}::NFTMarketplace::get_all_auctions`,
-        type_arguments: [],
-        arguments: [],
-      });
-
-      if (Array.isArray(response[0])) {
-        const fetchedAuctions: Auction[] = response[0].map((auction: any) => ({
-          id: auction.id,
-          nftId: auction.nft_id,
-          seller: auction.seller,
-          startingPrice: auction.starting_price / 100000000,
-          currentBid: auction.current_bid / 100000000,
-          highestBidder: auction.highest_bidder,
-          endTime: auction.end_time,
-          nftDetails: {
-            name: new TextDecoder().decode(new Uint8Array(auction.nft_details.name)),
-            description: new TextDecoder().decode(new Uint8Array(auction.nft_details.description)),
-            uri: new TextDecoder().decode(new Uint8Array(auction.nft_details.uri)),
-            rarity: auction.nft_details.rarity,
-          },
-        }));
-
-        setAuctions(fetchedAuctions);
-      }
-    } catch (error) {
-      console.error("Error fetching auctions:", error);
-      message.error("Failed to fetch auctions.");
-    } finally {
-      setIsLoading(false);
-    }
-  }, [marketplaceAddr]);
+  const { marketplace, marketplaceAddr, dataSource } = useNetwork();
+  const cache = useQueryCache();
+  const { settle, settlingId, canSettle } = useSettleAuction();
+
+  const now = useChainNow();
+  // Whole minutes, so the ending-soon window doesn't change the query every
+  // tick. The previous page stays up while the moved window loads.
+  const nowMinute = Math.floor(now / 60000) * 60;
+  const query = {
+    offset: (currentPage - 1) * pageSize,
+    limit: pageSize,
+    sort: sortBy,
+    ...(endingSoonOnly && { endsAfter: nowMinute, endsBefore: nowMinute + ENDING_SOON_MS / 1000 }),
+  };
+  const auctionsKey = [...queryKeys.auctions(marketplaceAddr), query];
+  const { data: page, error, isLoading } = useQuery(auctionsKey, () => dataSource.getAuctions(query), {
+    keepPreviousData: true,
+  });
+  const auctions = page?.items ?? [];
+  const total = page ? paginationTotal(page, query) : 0;
 
   useEffect(() => {
-    fetchAuctions();
-    // Set up interval to refresh auctions
-    const interval = setInterval(fetchAuctions, 30000); // Refresh every 30 seconds
-    return () => clearInterval(interval);
-  }, [fetchAuctions]);
+    if (error) message.error("Failed to fetch auctions.");
+  }, [error]);
+
+  // The user's own highest bid per auction, to show where they stand.
+  const myBidsKey = account ? queryKeys.accountBids(marketplaceAddr, account.address) : null;
+  const { data: myBids } = useQuery(myBidsKey, async () =>
+    (await fetchAllEvents(marketplace, "bid")).reduce(
+      (bids, event) =>
+        event.kind === "bid" && sameAddress(event.bidder, account!.address) ? withBid(bids, event.auctionId, event.amount) : bids,
+      new Map<number, string>()
+    )
+  );
+
+  // Bids are patched into the cards, and into the user's own bids, as they
+  // happen; new and settled auctions change the list itself, so those refetch
+  // it in the background.
+  useMarketplaceEvents((event) => {
+    if (event.kind === "auctionCreated" || event.kind === "auctionSettled") {
+      cache.invalidate(queryKeys.auctions(marketplaceAddr));
+      return;
+    }
+    if (event.kind !== "bid") return;
+
+    const auction = auctions.find((candidate) => candidate.id === event.auctionId);
+    const isMine = sameAddress(event.bidder, account?.address);
+    if (isMine) {
+      setOutbidIds((ids) => ids.filter((id) => id !== event.auctionId));
+      if (myBidsKey) cache.update<Map<number, string>>(myBidsKey, (bids) => withBid(bids, event.auctionId, event.amount));
+    } else if (auction && sameAddress(auction.highestBidder, account?.address)) {
+      setOutbidIds((ids) => [...ids, event.auctionId]);
+      message.warning(`You've been outbid on ${auction.nftDetails.name}.`);
+    }
+
+    const patch = (current: Auction) =>
+      current.id === event.auctionId ? { ...current, currentBid: event.amount, highestBidder: event.bidder } : current;
+    cache.update<Page<Auction>>(auctionsKey, (current) => ({ ...current, items: current.items.map(patch) }));
+    setSelectedAuction((current) => current && patch(current));
+  });
 
   const handleBidClick = (auction: Auction) => {
     if (!account) {
@@ -89,44 +113,59 @@ const AuctionView: React.FC<{ marketplaceAddr: string }> = ({ marketplaceAddr })
   const handleBidCancel = () => {
     setIsBidModalVisible(false);
     setSelectedAuction(null);
-    setBidAmount("");
   };
 
-  const handleBidSubmit = async () => {
-    if (!selectedAuction || !bidAmount || !account) return;
-
-    try {
-      const bidAmountOctas = parseFloat(bidAmount) * 100000000;
-
-      const payload: Types.TransactionPayload = {
-        type: "entry_function_payload",
-        function: `${marketplaceAddr}::NFTMarketplace::place_bid`,
-        type_arguments: [],
-        arguments: [marketplaceAddr, selectedAuction.id.toString(), bidAmountOctas.toString()]
-      };
-
-      const response = await (window as any).aptos.signAndSubmitTransaction(payload);
-      await client.waitForTransaction(response.hash);
-
-      message.success("Bid placed successfully!");
-      setIsBidModalVisible(false);
-      setBidAmount("");
-      fetchAuctions();
-    } catch (error) {
-      console.error("Error placing bid:", error);
-      message.error("Failed to place bid. Please try again.");
+  const renderBidStatus = (auction: Auction) => {
+    const myBid = myBids?.get(auction.id);
+    if (!account || !myBid) return null;
+    if (sameAddress(auction.highestBidder, account.address)) {
+      return (
+        <Tag color="green" style={{ marginBottom: 8 }}>
+          {isAuctionEnded(auction.endTime, now) ? "You won" : "You're the highest bidder"}
+        </Tag>
+      );
     }
+    // Whether an outbid bidder has been refunded isn't shown: none of the
+    // marketplace's event handles records refunds.
+    return <Tag color="blue" style={{ marginBottom: 8 }}>Outbid</Tag>;
   };
 
-  const paginatedAuctions = auctions.slice((currentPage - 1) * pageSize, currentPage * pageSize);
-
-  const isAuctionEnded = (endTime: number) => {
-    return Date.now() > endTime * 1000;
+  const renderSettlement = (auction: Auction) => {
+    const action = canSettle ? settlementAction(auction, account?.address, now) : null;
+    if (!action) return <Button disabled>Auction Ended</Button>;
+    return (
+      <Button type="primary" loading={settlingId === auction.id} onClick={() => settle(auction, action)}>
+        {settlementLabels[action]}
+      </Button>
+    );
   };
 
   return (
     <div style={{ padding: "20px" }}>
       <Title level={2}>Active Auctions</Title>
+      <div style={{ marginBottom: 20 }}>
+        <Select
+          value={sortBy ?? 'default'}
+          style={{ width: 160, marginRight: 16 }}
+          onChange={(value) => {
+            setSortBy(value === 'default' ? undefined : (value as AuctionSort));
+            setCurrentPage(1);
+          }}
+        >
+          <Select.Option value="default">Default order</Select.Option>
+          <Select.Option value="ending_soon">Ending soonest</Select.Option>
+          <Select.Option value="newest">Newest first</Select.Option>
+        </Select>
+        <Checkbox
+          checked={endingSoonOnly}
+          onChange={(e) => {
+            setEndingSoonOnly(e.target.checked);
+            setCurrentPage(1);
+          }}
+        >
+          Ending within the hour
+        </Checkbox>
+      </div>
       {isLoading ? (
         <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
           <Spin size="large" />
@@ -134,32 +173,38 @@ const AuctionView: React.FC<{ marketplaceAddr: string }> = ({ marketplaceAddr })
       ) : (
         <>
           <Row gutter={[16, 16]}>
-            {paginatedAuctions.map((auction) => (
+            {auctions.map((auction) => (
               <Col xs={24} sm={12} md={8} lg={6} key={auction.id}>
                 <Card
                   hoverable
+                  style={outbidIds.includes(auction.id) ? { borderColor: '#ff4d4f' } : undefined}
                   cover={<img alt={auction.nftDetails.name} src={auction.nftDetails.uri} style={{ height: 200, objectFit: 'cover' }} />}
                 >
+                  {outbidIds.includes(auction.id) && (
+                    <Tag color="red" style={{ marginBottom: 8 }}>You've been outbid</Tag>
+                  )}
+                  {renderBidStatus(auction)}
                   <Meta
                     title={auction.nftDetails.name}
                     description={auction.nftDetails.description}
                   />
                   <div style={{ marginTop: 16 }}>
-                    <p>Current Bid: {auction.currentBid} APT</p>
-                    <p>Starting Price: {auction.startingPrice} APT</p>
-                    <p>Ends: {new Date(auction.endTime * 1000).toLocaleString()}</p>
-                    {!isAuctionEnded(auction.endTime) && (
+                    <p>Seller: <Link to={`/profile/${auction.seller}`}>{truncateAddress(auction.seller)}</Link></p>
+                    <p>Current Bid: {formatApt(auction.currentBid)}</p>
+                    <p>Starting Price: {formatApt(auction.startingPrice)}</p>
+                    <p><AuctionCountdown endTime={auction.endTime} now={now} /></p>
+                    <p><Link to={`/auctions/${auction.id}`}>Bid history</Link></p>
+                    {!isAuctionEnded(auction.endTime, now) && (
                       <Button
                         type="primary"
                         onClick={() => handleBidClick(auction)}
-                        disabled={account?.address === auction.seller}
+                        disabled={!!bidBlockedReason(auction, account?.address)}
+                        title={bidBlockedReason(auction, account?.address) ?? undefined}
                       >
                         Place Bid
                       </Button>
                     )}
-                    {isAuctionEnded(auction.endTime) && (
-                      <Button disabled>Auction Ended</Button>
-                    )}
+                    {isAuctionEnded(auction.endTime, now) && renderSettlement(auction)}
                   </div>
                 </Card>
               </Col>
@@ -168,48 +213,14 @@ const AuctionView: React.FC<{ marketplaceAddr: string }> = ({ marketplaceAddr })
           <Pagination
             current={currentPage}
             pageSize={pageSize}
-            total={auctions.length}
+            total={total}
             onChange={(page) => setCurrentPage(page)}
             style={{ marginTop: 20, textAlign: 'center' }}
           />
         </>
       )}
 
-      <Modal
-        title="Place Bid"
-        open={isBidModalVisible}
-        onCancel={handleBidCancel}
-        footer={[
-          <Button key="cancel" onClick={handleBidCancel}>
-            Cancel
-          </Button>,
-          <Button
-            key="submit"
-            type="primary"
-            onClick={handleBidSubmit}
-            disabled={!bidAmount || (selectedAuction && parseFloat(bidAmount) <= selectedAuction.currentBid)}
-          >
-            Place Bid
-          </Button>,
-        ]}
-      >
-        {selectedAuction && (
-          <>
-            <p>NFT: {selectedAuction.nftDetails.name}</p>
-            <p>Current Highest Bid: {selectedAuction.currentBid} APT</p>
-            <p>Minimum Bid: {(selectedAuction.currentBid + 0.1).toFixed(1)} APT</p>
-            <Input
-              type="number"
-              placeholder="Enter bid amount in APT"
-              value={bidAmount}
-              onChange={(e) => setBidAmount(e.target.value)}
-              min={selectedAuction.currentBid + 0.1}
-              step={0.1}
-              style={{ marginTop: 16 }}
-            />
-          </>
-        )}
-      </Modal>
+      <BidModal auction={selectedAuction} open={isBidModalVisible} onClose={handleBidCancel} />
     </div>
   );
 };
@@ -0,0 +1,151 @@
+import React, { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Alert, Card, Col, Empty, Pagination, Progress, Row, Select, Spin, Statistic, Tag, Typography } from "antd";
+import { useNetwork } from "../context/NetworkContext";
+import { useCollections } from "../hooks/useCollections";
+import { useQuery } from "../hooks/useQuery";
+import { paginationTotal } from "../services/nftDataSource";
+import { queryKeys } from "../services/queryCache";
+import { formatApt } from "../utils/amount";
+import { truncateAddress } from "../utils/address";
+import { MAX_RARITY, rarityColors, rarityLabels } from "../utils/rarity";
+
+const { Title } = Typography;
+const { Meta } = Card;
+
+const CollectionDetail: React.FC = () => {
+  const collectionId = Number(useParams().id);
+  const pageSize = 12;
+  const [currentPage, setCurrentPage] = useState(1);
+  const [listedOnly, setListedOnly] = useState(false);
+  const { marketplaceAddr, dataSource } = useNetwork();
+  const { collections, isLoading } = useCollections();
+  // Only the page of items on screen is loaded.
+  const query = { offset: (currentPage - 1) * pageSize, limit: pageSize, listedOnly };
+  const { data: page } = useQuery(
+    [...queryKeys.collections(marketplaceAddr), collectionId, "nfts", query],
+    () => dataSource.getCollectionNfts(collectionId, query),
+    { keepPreviousData: true }
+  );
+
+  if (isLoading) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+        <Spin size="large" />
+      </div>
+    );
+  }
+
+  const summary = collections?.find((candidate) => candidate.collection.id === collectionId);
+  if (!summary) {
+    return (
+      <div style={{ padding: "20px" }}>
+        <Link to="/collections">← Back to collections</Link>
+        <Alert type="error" showIcon style={{ marginTop: 16 }} message={`Collection #${collectionId} doesn't exist.`} />
+      </div>
+    );
+  }
+
+  const { collection, stats } = summary;
+  const shown = page?.items ?? [];
+  const rarities = Array.from({ length: MAX_RARITY }, (_, i) => i + 1);
+
+  return (
+    <div style={{ padding: "20px" }}>
+      <Link to="/collections">← Back to collections</Link>
+      <Title level={2} style={{ marginTop: 8, marginBottom: 4 }}>{collection.name}</Title>
+      <p>
+        By <Link to={`/profile/${collection.creator}`}>{truncateAddress(collection.creator)}</Link>
+      </p>
+
+      <Row gutter={[16, 16]} style={{ marginBottom: 16 }}>
+        <Col xs={12} md={4}>
+          <Card><Statistic title="Floor price" value={stats.floorPrice !== null ? formatApt(stats.floorPrice) : "—"} /></Card>
+        </Col>
+        <Col xs={12} md={4}>
+          <Card><Statistic title="Total volume" value={formatApt(stats.volume)} /></Card>
+        </Col>
+        <Col xs={12} md={4}>
+          <Card><Statistic title="Sales" value={stats.salesCount} /></Card>
+        </Col>
+        <Col xs={12} md={4}>
+          <Card><Statistic title="Items" value={stats.items} /></Card>
+        </Col>
+        <Col xs={12} md={4}>
+          <Card><Statistic title="Listed" value={stats.listedCount} suffix={`/ ${stats.items}`} /></Card>
+        </Col>
+        <Col xs={12} md={4}>
+          <Card><Statistic title="Owners" value={stats.ownerCount} /></Card>
+        </Col>
+      </Row>
+
+      <Card title="Rarity distribution" style={{ marginBottom: 16 }}>
+        {rarities.map((rarity) => (
+          <div key={rarity} style={{ display: 'flex', alignItems: 'center' }}>
+            <Tag color={rarityColors[rarity]} style={{ width: 90, textAlign: 'center' }}>{rarityLabels[rarity]}</Tag>
+            <Progress
+              percent={stats.items ? Math.round((stats.rarityCounts[rarity] / stats.items) * 100) : 0}
+              format={() => stats.rarityCounts[rarity]}
+              strokeColor={rarityColors[rarity]}
+            />
+          </div>
+        ))}
+      </Card>
+
+      <div style={{ marginBottom: 16 }}>
+        <Select
+          value={listedOnly ? "listed" : "all"}
+          style={{ width: 160 }}
+          onChange={(value) => {
+            setListedOnly(value === "listed");
+            setCurrentPage(1);
+          }}
+          options={[
+            { value: "all", label: "All items" },
+            { value: "listed", label: "Listed only" },
+          ]}
+        />
+      </div>
+
+      {!page ? (
+        <Spin />
+      ) : shown.length === 0 ? (
+        <Empty description={listedOnly ? "Nothing listed right now" : "No items"} />
+      ) : (
+        <>
+          <Row gutter={[16, 16]}>
+            {shown.map((nft) => (
+              <Col xs={24} sm={12} md={8} lg={6} key={nft.id}>
+                <Card
+                  hoverable
+                  cover={
+                    <Link to={`/nft/${nft.id}`}>
+                      <img alt={nft.name} src={nft.uri} style={{ height: 200, width: '100%', objectFit: 'cover' }} />
+                    </Link>
+                  }
+                >
+                  <Tag color={rarityColors[nft.rarity]} style={{ marginBottom: 8 }}>
+                    {rarityLabels[nft.rarity]}
+                  </Tag>
+                  <Meta
+                    title={<Link to={`/nft/${nft.id}`}>{nft.name}</Link>}
+                    description={nft.for_sale ? formatApt(nft.price) : "Not for sale"}
+                  />
+                </Card>
+              </Col>
+            ))}
+          </Row>
+          <Pagination
+            current={currentPage}
+            pageSize={pageSize}
+            total={page ? paginationTotal(page, query) : 0}
+            onChange={(page) => setCurrentPage(page)}
+            style={{ marginTop: 20, textAlign: 'center' }}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CollectionDetail;
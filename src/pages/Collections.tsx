@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, Col, Empty, Input, Row, Select, Spin, Statistic, Typography, message } from "antd";
+import { useCollections } from "../hooks/useCollections";
+import { formatApt } from "../utils/amount";
+import { truncateAddress } from "../utils/address";
+import { CollectionSummary } from "../utils/collections";
+
+const { Title } = Typography;
+
+type CollectionSort = "volume" | "floor" | "items" | "newest";
+
+const compareBigInts = (a: bigint, b: bigint) => (a < b ? -1 : a > b ? 1 : 0);
+
+const sorters: { [key in CollectionSort]: (a: CollectionSummary, b: CollectionSummary) => number } = {
+  volume: (a, b) => compareBigInts(b.stats.volume, a.stats.volume),
+  // Collections with nothing listed go last.
+  floor: (a, b) =>
+    a.stats.floorPrice === null || b.stats.floorPrice === null
+      ? Number(a.stats.floorPrice === null) - Number(b.stats.floorPrice === null)
+      : compareBigInts(a.stats.floorPrice, b.stats.floorPrice),
+  items: (a, b) => b.stats.items - a.stats.items,
+  newest: (a, b) => b.collection.id - a.collection.id,
+};
+
+const Collections: React.FC = () => {
+  const { collections, error, isLoading } = useCollections();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [sortBy, setSortBy] = useState<CollectionSort>("volume");
+
+  useEffect(() => {
+    if (error) message.error("Failed to fetch collections.");
+  }, [error]);
+
+  const search = searchTerm.trim().toLowerCase();
+  const rows = (collections ?? [])
+    .filter(({ collection }) => !search || collection.name.toLowerCase().includes(search))
+    .sort(sorters[sortBy]);
+
+  return (
+    <div style={{ padding: "20px" }}>
+      <Title level={2} style={{ marginBottom: "20px" }}>Collections</Title>
+      <div style={{ marginBottom: "20px" }}>
+        <Input
+          placeholder="Search collections"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          style={{ width: 200, marginRight: 16 }}
+        />
+        <Select
+          value={sortBy}
+          style={{ width: 160 }}
+          onChange={(value: CollectionSort) => setSortBy(value)}
+          options={[
+            { value: "volume", label: "Highest volume" },
+            { value: "floor", label: "Lowest floor" },
+            { value: "items", label: "Most items" },
+            { value: "newest", label: "Newest first" },
+          ]}
+        />
+      </div>
+
+      {isLoading ? (
+        <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+          <Spin size="large" />
+        </div>
+      ) : rows.length === 0 ? (
+        <Empty description="No collections yet. Mint an NFT into a collection to start one." />
+      ) : (
+        <Row gutter={[16, 16]}>
+          {rows.map(({ collection, stats, cover }) => (
+            <Col xs={24} sm={12} md={8} lg={6} key={collection.id}>
+              <Link to={`/collections/${collection.id}`}>
+                <Card
+                  hoverable
+                  cover={cover ? <img alt={collection.name} src={cover} style={{ height: 200, objectFit: 'cover' }} /> : undefined}
+                >
+                  <Card.Meta title={collection.name} description={`By ${truncateAddress(collection.creator)}`} />
+                  <Row gutter={8} style={{ marginTop: 16 }}>
+                    <Col span={12}>
+                      <Statistic title="Floor" value={stats.floorPrice !== null ? formatApt(stats.floorPrice) : "—"} valueStyle={{ fontSize: 16 }} />
+                    </Col>
+                    <Col span={12}>
+                      <Statistic title="Volume" value={formatApt(stats.volume)} valueStyle={{ fontSize: 16 }} />
+                    </Col>
+                    <Col span={12}>
+                      <Statistic title="Items" value={stats.items} valueStyle={{ fontSize: 16 }} />
+                    </Col>
+                    <Col span={12}>
+                      <Statistic title="Owners" value={stats.ownerCount} valueStyle={{ fontSize: 16 }} />
+                    </Col>
+                  </Row>
+                </Card>
+              </Link>
+            </Col>
+          ))}
+        </Row>
+      )}
+    </div>
+  );
+};
+
+export default Collections;
@@ -1,106 +1,105 @@
-import React, { useState, useEffect, useCallback } from "react";
-import { Typography, Radio, message, Card, Row, Col, Pagination, Tag, Button, Modal, Select, Input, Slider, DatePicker, Spin } from "antd";
-import { AptosClient } from "aptos";
-import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import React, { useState, useEffect, useMemo } from "react";
+import { Typography, Radio, message, Alert, Card, Row, Col, Pagination, Tag, Button, Select, Input, Slider, DatePicker, Spin, Tooltip } from "antd";
 import moment from 'moment';
+import { Link } from "react-router-dom";
+import { ShoppingCartOutlined } from "@ant-design/icons";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { NFT } from "../services/marketplaceClient";
+import { useNetwork } from "../context/NetworkContext";
+import { useQueryCache } from "../context/QueryCacheContext";
+import { useMarketplaceEvents } from "../context/MarketplaceEventsContext";
+import { useCart } from "../context/CartContext";
+import { useQuery } from "../hooks/useQuery";
+import { usePriceReferences } from "../hooks/usePriceReferences";
+import { useModuleFunctions } from "../hooks/useModuleFunctions";
+import { queryKeys } from "../services/queryCache";
+import { MarketSort, Page, paginationTotal } from "../services/nftDataSource";
+import { formatApt } from "../utils/amount";
+import { sameAddress, truncateAddress } from "../utils/address";
+import { OCTAS_PER_APT } from "../utils/codec";
+import { rarityColors, rarityLabels } from "../utils/rarity";
+import PurchaseModal from "../components/PurchaseModal";
+import MakeOfferModal from "../components/MakeOfferModal";
 
 const { Title } = Typography;
 const { Meta } = Card;
 const { Option } = Select;
 const { RangePicker } = DatePicker;
 
-const client = new AptosClient("https://fullnode.testnet.aptoslabs.com/v1");
-
-type NFT = {
-  id: number;
-  owner: string;
-  name: string;
-  description: string;
-  uri: string;
-  price: number;
-  for_sale: boolean;
-  rarity: number;
-  listed_at: number;
-};
-
-interface MarketViewProps {
-  marketplaceAddr: string;
-}
-
-const rarityColors: { [key: number]: string } = {
-  1: "green",
-  2: "blue",
-  3: "purple",
-  4: "orange",
-};
-
-const rarityLabels: { [key: number]: string } = {
-  1: "Common",
-  2: "Uncommon",
-  3: "Rare",
-  4: "Super Rare",
-};
-
-const truncateAddress = (address: string, start = 6, end = 4) => {
-  return `${address.slice(0, start)}...${address.slice(-end)}`;
-};
-
-const MarketView: React.FC<MarketViewProps> = ({ marketplaceAddr }) => {
-  const { signAndSubmitTransaction } = useWallet();
-  const [nfts, setNfts] = useState<NFT[]>([]);
-  const [filteredNfts, setFilteredNfts] = useState<NFT[]>([]);
+const MarketView: React.FC = () => {
   const [rarity, setRarity] = useState<'all' | number>('all');
   const [currentPage, setCurrentPage] = useState(1);
   const [isBuyModalVisible, setIsBuyModalVisible] = useState(false);
+  const [isOfferModalVisible, setIsOfferModalVisible] = useState(false);
   const [selectedNft, setSelectedNft] = useState<NFT | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const [newListings, setNewListings] = useState(0);
   const pageSize = 8;
 
   // Advanced filtering and sorting state
   const [priceRange, setPriceRange] = useState<[number, number]>([0, 1000]);
   const [dateRange, setDateRange] = useState<[moment.Moment | null, moment.Moment | null]>([null, null]);
-  const [sortBy, setSortBy] = useState<string>('price_asc');
+  const [sortBy, setSortBy] = useState<MarketSort>('price_asc');
   const [searchTerm, setSearchTerm] = useState<string>('');
 
-  const fetchNfts = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const response = await client.getAccountResource(
-        marketplaceAddr,
-        `${marketplaceAddr}::NFTMarketplace::Marketplace`
-      );
-      const nftList = (response.data as { nfts: NFT[] }).nfts;
+  const { marketplaceAddr, dataSource } = useNetwork();
+  const { account } = useWallet();
+  const cache = useQueryCache();
+  const cart = useCart();
+  const hasFunction = useModuleFunctions();
 
-      const hexToUint8Array = (hexString: string): Uint8Array => {
-        const bytes = new Uint8Array(hexString.length / 2);
-        for (let i = 0; i < hexString.length; i += 2) {
-          bytes[i / 2] = parseInt(hexString.substr(i, 2), 16);
-        }
-        return bytes;
-      };
+  // Filters are applied by the data source, so only the current page is loaded.
+  const filters = useMemo(
+    () => ({
+      rarity: rarity === 'all' ? undefined : rarity,
+      search: searchTerm || undefined,
+      minPrice: BigInt(priceRange[0]) * OCTAS_PER_APT,
+      maxPrice: BigInt(priceRange[1]) * OCTAS_PER_APT,
+      listedAfter: dateRange[0] && dateRange[1] ? dateRange[0].valueOf() : undefined,
+      listedBefore: dateRange[0] && dateRange[1] ? dateRange[1].valueOf() : undefined,
+      sort: sortBy,
+    }),
+    [rarity, searchTerm, priceRange, dateRange, sortBy]
+  );
 
-      const decodedNfts = nftList.map((nft) => ({
-        ...nft,
-        name: new TextDecoder().decode(hexToUint8Array(nft.name.slice(2))),
-        description: new TextDecoder().decode(hexToUint8Array(nft.description.slice(2))),
-        uri: new TextDecoder().decode(hexToUint8Array(nft.uri.slice(2))),
-        price: nft.price / 100000000,
-        listed_at: nft.listed_at || Date.now(),
-      }));
+  useEffect(() => {
+    setCurrentPage(1);
+    setNewListings(0);
+  }, [filters]);
 
-      setNfts(decodedNfts);
-      setFilteredNfts(decodedNfts);
-    } catch (error) {
-      console.error("Error fetching NFTs:", error);
-      message.error("Failed to fetch NFTs.");
-    } finally {
-      setIsLoading(false);
-    }
-  }, [marketplaceAddr]);
+  const query = { ...filters, offset: (currentPage - 1) * pageSize, limit: pageSize };
+  const marketKey = [...queryKeys.market(marketplaceAddr), query];
+  const { data: page, error, isLoading } = useQuery(marketKey, () => dataSource.getMarketNfts(query));
+  const nfts = page?.items ?? [];
+  const total = page ? paginationTotal(page, query) : 0;
+  const { lastSales } = usePriceReferences(nfts.map((nft) => nft.id));
 
   useEffect(() => {
-    fetchNfts();
-  }, [fetchNfts]);
+    if (error) message.error("Failed to fetch NFTs.");
+  }, [error]);
+
+  // Sold NFTs drop out of the page straight away. New listings would reshuffle
+  // the sort order under the user, so they wait behind a banner instead.
+  useMarketplaceEvents((event) => {
+    if (event.kind === "listed" && !sameAddress(event.seller, account?.address)) {
+      setNewListings((count) => count + 1);
+    }
+    if (event.kind === "purchased") {
+      cache.update<Page<NFT>>(marketKey, (current) =>
+        current.items.some((nft) => nft.id === event.nftId)
+          ? {
+              ...current,
+              items: current.items.filter((nft) => nft.id !== event.nftId),
+              total: current.total !== null ? current.total - 1 : null,
+            }
+          : current
+      );
+    }
+  });
+
+  const showNewListings = () => {
+    setNewListings(0);
+    cache.invalidate(queryKeys.market(marketplaceAddr));
+  };
 
   const handleBuyClick = (nft: NFT) => {
     setSelectedNft(nft);
@@ -112,90 +111,15 @@ const MarketView: React.FC<MarketViewProps> = ({ marketplaceAddr }) => {
     setSelectedNft(null);
   };
 
-  const handleConfirmPurchase = async () => {
-    if (!selectedNft) return;
-  
-    try {
-      const priceInOctas = selectedNft.price * 100000000;
-  
-      const entryFunctionPayload = {
-        type: "entry_function_payload",
-        function: `${marketplaceAddr}::NFTMarketplace::purchase_nft`,
-        type_arguments: [],
-        arguments: [marketplaceAddr, selectedNft.id.toString(), priceInOctas.toString()],
-      };
-  
-      const response = await (window as any).aptos.signAndSubmitTransaction(entryFunctionPayload);
-      await client.waitForTransaction(response.hash);
-  
-      message.success("NFT purchased successfully!");
-      setIsBuyModalVisible(false);
-      fetchNfts();
-    } catch (error) {
-      console.error("Error purchasing NFT:", error);
-      message.error("Failed to purchase NFT.");
-    }
+  const handleOfferClick = (nft: NFT) => {
+    setSelectedNft(nft);
+    setIsOfferModalVisible(true);
   };
 
-  const applyFilters = useCallback(() => {
-    let filtered = nfts;
-
-    // Filter by rarity
-    if (rarity !== 'all') {
-      filtered = filtered.filter((nft) => nft.rarity === rarity);
-    }
-
-    // Filter by price range
-    filtered = filtered.filter((nft) => nft.price >= priceRange[0] && nft.price <= priceRange[1]);
-
-    // Filter by date range
-    if (dateRange[0] && dateRange[1]) {
-      filtered = filtered.filter((nft) => {
-        const listedDate = moment(nft.listed_at);
-        return listedDate.isBetween(dateRange[0], dateRange[1], null, '[]');
-      });
-    }
-
-    // Filter by search term
-    if (searchTerm) {
-      const lowercaseTerm = searchTerm.toLowerCase();
-      filtered = filtered.filter((nft) =>
-        nft.name.toLowerCase().includes(lowercaseTerm) ||
-        nft.description.toLowerCase().includes(lowercaseTerm)
-      );
-    }
-
-    // Apply sorting
-    switch (sortBy) {
-      case 'price_asc':
-        filtered.sort((a, b) => a.price - b.price);
-        break;
-      case 'price_desc':
-        filtered.sort((a, b) => b.price - a.price);
-        break;
-      case 'date_asc':
-        filtered.sort((a, b) => a.listed_at - b.listed_at);
-        break;
-      case 'date_desc':
-        filtered.sort((a, b) => b.listed_at - a.listed_at);
-        break;
-      case 'rarity_asc':
-        filtered.sort((a, b) => a.rarity - b.rarity);
-        break;
-      case 'rarity_desc':
-        filtered.sort((a, b) => b.rarity - a.rarity);
-        break;
-    }
-
-    setFilteredNfts(filtered);
-    setCurrentPage(1);
-  }, [nfts, rarity, priceRange, dateRange, searchTerm, sortBy]);
-
-  useEffect(() => {
-    applyFilters();
-  }, [applyFilters]);
-
-  const paginatedNfts = filteredNfts.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+  const handleCancelOffer = () => {
+    setIsOfferModalVisible(false);
+    setSelectedNft(null);
+  };
 
   return (
     <div style={{ padding: "20px" }}>
@@ -223,7 +147,7 @@ const MarketView: React.FC<MarketViewProps> = ({ marketplaceAddr }) => {
         <Select
           defaultValue="price_asc"
           style={{ width: 120, marginRight: 16 }}
-          onChange={(value) => setSortBy(value)}
+          onChange={(value: MarketSort) => setSortBy(value)}
         >
           <Option value="price_asc">Price: Low to High</Option>
           <Option value="price_desc">Price: High to Low</Option>
@@ -249,6 +173,20 @@ const MarketView: React.FC<MarketViewProps> = ({ marketplaceAddr }) => {
         />
       </div>
 
+      {newListings > 0 && (
+        <Alert
+          type="info"
+          showIcon
+          style={{ marginBottom: 20 }}
+          message={`${newListings} new listing${newListings === 1 ? '' : 's'} available`}
+          action={
+            <Button size="small" type="primary" onClick={showNewListings}>
+              Show
+            </Button>
+          }
+        />
+      )}
+
       {isLoading ? (
         <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
           <Spin size="large" />
@@ -256,24 +194,48 @@ const MarketView: React.FC<MarketViewProps> = ({ marketplaceAddr }) => {
       ) : (
         <>
           <Row gutter={[16, 16]}>
-            {paginatedNfts.map((nft) => (
+            {nfts.map((nft) => (
               <Col xs={24} sm={12} md={8} lg={6} key={nft.id}>
                 <Card
                   hoverable
-                    cover={<img alt={nft.name} src={nft.uri} style={{ height: 200, objectFit: 'cover' }} />}
+                  cover={
+                    <Link to={`/nft/${nft.id}`}>
+                      <img alt={nft.name} src={nft.uri} style={{ height: 200, width: '100%', objectFit: 'cover' }} />
+                    </Link>
+                  }
                   actions={[
                     <Button type="primary" onClick={() => handleBuyClick(nft)}>
                       Buy
-                    </Button>
-                  ]}
+                    </Button>,
+                    hasFunction("make_offer") && (
+                      <Button
+                        onClick={() => handleOfferClick(nft)}
+                        disabled={!!account && sameAddress(nft.owner, account.address)}
+                      >
+                        Make Offer
+                      </Button>
+                    ),
+                    <Tooltip title={cart.contains(nft.id) ? "Remove from cart" : "Add to cart"}>
+                      <Button
+                        icon={<ShoppingCartOutlined />}
+                        type={cart.contains(nft.id) ? "primary" : "default"}
+                        ghost={cart.contains(nft.id)}
+                        onClick={() => (cart.contains(nft.id) ? cart.remove(nft.id) : cart.add(nft))}
+                        disabled={!!account && sameAddress(nft.owner, account.address)}
+                      />
+                    </Tooltip>
+                  ].filter(Boolean)}
                 >
                   <Tag color={rarityColors[nft.rarity]} style={{ marginBottom: 8 }}>
                     {rarityLabels[nft.rarity]}
                   </Tag>
-                  <Meta title={nft.name} description={`${nft.price} APT`} />
+                  <Meta title={<Link to={`/nft/${nft.id}`}>{nft.name}</Link>} description={formatApt(nft.price)} />
                   <p style={{ marginTop: 8 }}>{nft.description}</p>
-                  <p>Owner: {truncateAddress(nft.owner)}</p>
-                  <p>Listed: {moment(nft.listed_at).format('MMMM Do YYYY')}</p>
+                  <p>Owner: <Link to={`/profile/${nft.owner}`}>{truncateAddress(nft.owner)}</Link></p>
+                  <p>Listed: {nft.listed_at !== null ? moment(nft.listed_at).format('MMMM Do YYYY') : '—'}</p>
+                  {lastSales.has(nft.id) && (
+                    <p style={{ color: '#8c8c8c' }}>Last sold for {formatApt(lastSales.get(nft.id)!.price)}</p>
+                  )}
                 </Card>
               </Col>
             ))}
@@ -281,37 +243,15 @@ const MarketView: React.FC<MarketViewProps> = ({ marketplaceAddr }) => {
           <Pagination
             current={currentPage}
             pageSize={pageSize}
-            total={filteredNfts.length}
+            total={total}
             onChange={(page) => setCurrentPage(page)}
             style={{ marginTop: 20, textAlign: 'center' }}
           />
         </>
       )}
 
-      <Modal
-        title="Purchase NFT"
-        open={isBuyModalVisible}
-        onCancel={handleCancelBuy}
-        footer={[
-          <Button key="cancel" onClick={handleCancelBuy}>
-            Cancel
-          </Button>,
-          <Button key="confirm" type="primary" onClick={handleConfirmPurchase}>
-            Confirm Purchase
-          </Button>,
-        ]}
-      >
-        {selectedNft && (
-          <>
-            <p><strong>NFT ID:</strong> {selectedNft.id}</p>
-            <p><strong>Name:</strong> {selectedNft.name}</p>
-            <p><strong>Description:</strong> {selectedNft.description}</p>
-            <p><strong>Rarity:</strong> {rarityLabels[selectedNft.rarity]}</p>
-            <p><strong>Price:</strong> {selectedNft.price} APT</p>
-            <p><strong>Owner:</strong> {truncateAddress(selectedNft.owner)}</p>
-          </>
-        )}
-      </Modal>
+      <PurchaseModal nft={selectedNft} open={isBuyModalVisible} onClose={handleCancelBuy} />
+      <MakeOfferModal nft={selectedNft} open={isOfferModalVisible} onClose={handleCancelOffer} />
     </div>
   );
 };
@@ -1,204 +1,123 @@
-import React, { useEffect, useState, useCallback } from "react";
-import { Typography, Card, Row, Col, Pagination, message, Button, Input, Modal, DatePicker, Spin } from "antd";
-import { AptosClient, Types } from "aptos";
+import React, { useEffect, useState } from "react";
+import { Typography, Card, Row, Col, Pagination, message, Button, Spin, Popconfirm, Tag, Checkbox, Space } from "antd";
+import { Link } from "react-router-dom";
 import { useWallet } from "@aptos-labs/wallet-adapter-react";
-import moment from 'moment';
+import { NFT } from "../services/marketplaceClient";
+import { useNetwork } from "../context/NetworkContext";
+import { useChainNow } from "../context/ChainClockContext";
+import SellModal from "../components/SellModal";
+import AuctionModal from "../components/AuctionModal";
+import BulkListModal from "../components/BulkListModal";
+import AuctionsNeedingAction from "../components/AuctionsNeedingAction";
+import OffersInbox from "../components/OffersInbox";
+import { useQuery } from "../hooks/useQuery";
+import { useListingActions } from "../hooks/useListingActions";
+import { paginationTotal } from "../services/nftDataSource";
+import { queryKeys } from "../services/queryCache";
+import { formatApt } from "../utils/amount";
+import { auctionsByNft, canCancelAuction, listingState } from "../utils/listing";
 
 const { Title } = Typography;
 const { Meta } = Card;
 
-const client = new AptosClient("https://fullnode.testnet.aptoslabs.com/v1");
-
-type NFT = {
-  id: number;
-  name: string;
-  description: string;
-  uri: string;
-  rarity: number;
-  price: number;
-  for_sale: boolean;
-};
-
 const MyNFTs: React.FC = () => {
   const pageSize = 8;
   const [currentPage, setCurrentPage] = useState(1);
-  const [nfts, setNfts] = useState<NFT[]>([]);
-  const [totalNFTs, setTotalNFTs] = useState(0);
   const { account } = useWallet();
-  const marketplaceAddr = "0x75cfca25296896f907a457e20a245f9af304cb1e48723d864e17f2e08ad93159";
+  const { marketplace, marketplaceAddr, dataSource } = useNetwork();
+  const { cancelListing, cancelAuction, pendingNftId, supported } = useListingActions();
+  const now = useChainNow();
 
-  const [isModalVisible, setIsModalVisible] = useState(false);
   const [selectedNft, setSelectedNft] = useState<NFT | null>(null);
-  const [salePrice, setSalePrice] = useState<string>("");
-  const [isAuctionModalVisible, setIsAuctionModalVisible] = useState(false);
-  const [auctionStartingPrice, setAuctionStartingPrice] = useState<string>("");
-  const [auctionEndTime, setAuctionEndTime] = useState<moment.Moment | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-
-  const fetchUserNFTs = useCallback(async () => {
-    if (!account) return;
-
-    setIsLoading(true);
-    try {
-      console.log("Fetching NFT IDs for owner:", account.address);
-
-      const nftIdsResponse = await client.view({
-        function: `${marketplaceAddr}::NFTMarketplace::get_all_nfts_for_owner`,
-        arguments: [marketplaceAddr, account.address, "100", "0"],
-        type_arguments: [],
-      });
-
-      const nftIds = Array.isArray(nftIdsResponse[0]) ? nftIdsResponse[0] : nftIdsResponse;
-      setTotalNFTs(nftIds.length);
-
-      if (nftIds.length === 0) {
-        console.log("No NFTs found for the owner.");
-        setNfts([]);
-        return;
-      }
-
-      console.log("Fetching details for each NFT ID:", nftIds);
-
-      const userNFTs = (await Promise.all(
-        nftIds.map(async (id) => {
-          try {
-            const nftDetails = await client.view({
-              function: `${marketplaceAddr}::NFTMarketplace::get_nft_details`,
-              arguments: [marketplaceAddr, id],
-              type_arguments: [],
-            });
-
-            const [nftId, _owner, name, description, uri, price, forSale, rarity] = nftDetails as [
-              number,
-              string,
-              string,
-              string,
-              string,
-              number,
-              boolean,
-              number
-            ];
+  const [openModal, setOpenModal] = useState<"sell" | "auction" | "bulk" | null>(null);
+  // Kept across pages, so a batch can span the whole collection.
+  const [selected, setSelected] = useState<NFT[]>([]);
+
+  const query = { offset: (currentPage - 1) * pageSize, limit: pageSize };
+  const { data: page, error, isLoading } = useQuery(
+    account ? [...queryKeys.owner(marketplaceAddr, account.address), query] : null,
+    () => dataSource.getOwnerNfts(account!.address, query)
+  );
+  const nfts = page?.items ?? [];
+  const totalNFTs = page ? paginationTotal(page, query) : 0;
 
-            const hexToUint8Array = (hexString: string): Uint8Array => {
-              const bytes = new Uint8Array(hexString.length / 2);
-              for (let i = 0; i < hexString.length; i += 2) {
-                bytes[i / 2] = parseInt(hexString.substr(i, 2), 16);
-              }
-              return bytes;
-            };
-
-            return {
-              id: nftId,
-              name: new TextDecoder().decode(hexToUint8Array(name.slice(2))),
-              description: new TextDecoder().decode(hexToUint8Array(description.slice(2))),
-              uri: new TextDecoder().decode(hexToUint8Array(uri.slice(2))),
-              rarity,
-              price: price / 100000000, // Convert octas to APT
-              for_sale: forSale,
-            };
-          } catch (error) {
-            console.error(`Error fetching details for NFT ID ${id}:`, error);
-            return null;
-          }
-        })
-      )).filter((nft): nft is NFT => nft !== null);
-
-      console.log("User NFTs:", userNFTs);
-      setNfts(userNFTs);
-    } catch (error) {
-      console.error("Error fetching NFTs:", error);
-      message.error("Failed to fetch your NFTs.");
-    } finally {
-      setIsLoading(false);
-    }
-  }, [account, marketplaceAddr]);
+  useEffect(() => {
+    if (error) message.error("Failed to fetch your NFTs.");
+  }, [error]);
+
+  const { data: auctions } = useQuery([...queryKeys.auctions(marketplaceAddr), "all"], () => marketplace.getAllAuctions());
+  const auctionFor = auctionsByNft(auctions);
+
+  // NFT objects are replaced on every refetch, so they are matched by id.
+  const includesNft = (items: NFT[], nft: NFT) => items.some((item) => item.id === nft.id);
+  const isSelected = (nft: NFT) => includesNft(selected, nft);
+  const toggleSelected = (nft: NFT) =>
+    setSelected((current) =>
+      includesNft(current, nft) ? current.filter((item) => item.id !== nft.id) : [...current, nft]
+    );
+  const selectable = nfts.filter((nft) => listingState(nft, auctionFor.get(nft.id)) === "unlisted");
+  const selectPage = () =>
+    setSelected((current) => [...current, ...selectable.filter((nft) => !includesNft(current, nft))]);
 
   const handleSellClick = (nft: NFT) => {
     setSelectedNft(nft);
-    setIsModalVisible(true);
+    setOpenModal("sell");
   };
 
   const handleAuctionClick = (nft: NFT) => {
     setSelectedNft(nft);
-    setIsAuctionModalVisible(true);
-  };
-
-  const handleCancel = () => {
-    setIsModalVisible(false);
-    setIsAuctionModalVisible(false);
-    setSelectedNft(null);
-    setSalePrice("");
-    setAuctionStartingPrice("");
-    setAuctionEndTime(null);
+    setOpenModal("auction");
   };
 
-  const handleConfirmListing = async () => {
-    if (!selectedNft || !salePrice) return;
-  
-    try {
-      const priceInOctas = parseFloat(salePrice) * 100000000;
-  
-      const entryFunctionPayload = {
-        type: "entry_function_payload",
-        function: `${marketplaceAddr}::NFTMarketplace::list_for_sale`,
-        type_arguments: [],
-        arguments: [marketplaceAddr, selectedNft.id.toString(), priceInOctas.toString()],
-      };
-  
-      const response = await (window as any).aptos.signAndSubmitTransaction(entryFunctionPayload);
-      await client.waitForTransaction(response.hash);
-  
-      message.success("NFT listed for sale successfully!");
-      setIsModalVisible(false);
-      setSalePrice("");
-      fetchUserNFTs();
-    } catch (error) {
-      console.error("Error listing NFT for sale:", error);
-      message.error("Failed to list NFT for sale.");
+  const renderActions = (nft: NFT) => {
+    const auction = auctionFor.get(nft.id);
+    switch (listingState(nft, auction)) {
+      case "listed":
+        return [
+          supported.updatePrice && (
+            <Button type="link" onClick={() => handleSellClick(nft)}>
+              Update Price
+            </Button>
+          ),
+          supported.cancelListing && (
+            <Popconfirm title="Take this NFT off the market?" onConfirm={() => cancelListing(nft)}>
+              <Button type="link" danger loading={pendingNftId === nft.id}>
+                Cancel Listing
+              </Button>
+            </Popconfirm>
+          ),
+        ].filter(Boolean);
+      case "auctioned":
+        return [
+          supported.cancelAuction && canCancelAuction(auction!, account?.address, now) ? (
+            <Popconfirm title="Cancel this auction?" onConfirm={() => cancelAuction(auction!)}>
+              <Button type="link" danger loading={pendingNftId === nft.id}>
+                Cancel Auction
+              </Button>
+            </Popconfirm>
+          ) : (
+            <Link to={`/auctions/${auction!.id}`}>View Auction</Link>
+          ),
+        ];
+      default:
+        return [
+          <Button type="link" onClick={() => handleSellClick(nft)}>
+            Sell
+          </Button>,
+          <Button type="link" onClick={() => handleAuctionClick(nft)}>
+            Auction
+          </Button>,
+        ];
     }
   };
 
-  const handleConfirmAuction = () => {
-    if (!selectedNft || !auctionStartingPrice || !auctionEndTime) return;
-    createAuction(selectedNft.id, auctionStartingPrice, auctionEndTime);
-  };
-
-  const createAuction = async (nftId: number, startingPrice: string, endTime: moment.Moment) => {
-    if (!account) {
-      message.error("Please connect your wallet to create an auction.");
-      return;
-    }
-
-    try {
-      const startingPriceOctas = parseFloat(startingPrice) * 100000000;
-      const endTimeUnix = endTime.unix();
-
-      const payload: Types.TransactionPayload = {
-        type: "entry_function_payload",
-        function: `${marketplaceAddr}::NFTMarketplace::create_auction`,
-        type_arguments: [],
-        arguments: [marketplaceAddr, nftId.toString(), startingPriceOctas.toString(), endTimeUnix.toString()]
-      };
-
-      const response = await (window as any).aptos.signAndSubmitTransaction(payload);
-      await client.waitForTransaction(response.hash);
-
-      message.success("Auction created successfully!");
-      setIsAuctionModalVisible(false);
-      setAuctionStartingPrice("");
-      setAuctionEndTime(null);
-      fetchUserNFTs();
-    } catch (error) {
-      console.error("Error creating auction:", error);
-      message.error("Failed to create auction. Please try again.");
-    }
+  const handleCloseModal = () => {
+    setOpenModal(null);
+    setSelectedNft(null);
   };
 
-  useEffect(() => {
-    fetchUserNFTs();
-  }, [fetchUserNFTs, currentPage]);
-
-  const paginatedNFTs = nfts.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+  const handleBulkDone = (nftIds: number[]) =>
+    setSelected((current) => current.filter((nft) => !nftIds.includes(nft.id)));
 
   return (
     <div
@@ -211,6 +130,21 @@ const MyNFTs: React.FC = () => {
     >
       <Title level={2} style={{ marginBottom: "20px" }}>My Collection</Title>
       <p>Your personal collection of NFTs.</p>
+      <AuctionsNeedingAction />
+      <OffersInbox />
+
+      <Space style={{ marginTop: 20 }}>
+        <span>{selected.length} selected</span>
+        <Button onClick={selectPage} disabled={selectable.every(isSelected)}>
+          Select all on page
+        </Button>
+        <Button onClick={() => setSelected([])} disabled={!selected.length}>
+          Clear
+        </Button>
+        <Button type="primary" onClick={() => setOpenModal("bulk")} disabled={!selected.length}>
+          List / Auction Selected
+        </Button>
+      </Space>
 
       {isLoading ? (
         <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
@@ -229,7 +163,7 @@ const MyNFTs: React.FC = () => {
               flexWrap: "wrap",
             }}
           >
-            {paginatedNFTs.map((nft) => (
+            {nfts.map((nft) => (
               <Col
                 key={nft.id}
                 xs={24} sm={12} md={8} lg={8} xl={6}
@@ -246,20 +180,26 @@ const MyNFTs: React.FC = () => {
                     minWidth: "220px",
                     margin: "0 auto",
                   }}
-                  cover={<img alt={nft.name} src={nft.uri} />}
-                  actions={[
-                    <Button type="link" onClick={() => handleSellClick(nft)}>
-                      Sell
-                    </Button>,
-                    <Button type="link" onClick={() => handleAuctionClick(nft)}>
-                      Auction
-                    </Button>
-                  ]}
+                  cover={
+                    <Link to={`/nft/${nft.id}`}>
+                      <img alt={nft.name} src={nft.uri} style={{ width: "100%" }} />
+                    </Link>
+                  }
+                  actions={renderActions(nft)}
                 >
-                  <Meta title={nft.name} description={`Rarity: ${nft.rarity}, Price: ${nft.price} APT`} />
+                  <Checkbox
+                    checked={isSelected(nft)}
+                    onChange={() => toggleSelected(nft)}
+                    disabled={!includesNft(selectable, nft)}
+                    style={{ marginBottom: 8 }}
+                  >
+                    Select
+                  </Checkbox>
+                  <Meta title={<Link to={`/nft/${nft.id}`}>{nft.name}</Link>} description={`Rarity: ${nft.rarity}, Price: ${formatApt(nft.price)}`} />
                   <p>ID: {nft.id}</p>
                   <p>{nft.description}</p>
                   <p style={{ margin: "10px 0" }}>For Sale: {nft.for_sale ? "Yes" : "No"}</p>
+                  {auctionFor.has(nft.id) && <Tag color="gold">In auction</Tag>}
                 </Card>
               </Col>
             ))}
@@ -277,74 +217,9 @@ const MyNFTs: React.FC = () => {
         </>
       )}
 
-      <Modal
-        title="Sell NFT"
-        visible={isModalVisible}
-        onCancel={handleCancel}
-        footer={[
-          <Button key="cancel" onClick={handleCancel}>
-            Cancel
-          </Button>,
-          <Button key="confirm" type="primary" onClick={handleConfirmListing}>
-            Confirm Listing
-          </Button>,
-        ]}
-      >
-        {selectedNft && (
-          <>
-            <p><strong>NFT ID:</strong> {selectedNft.id}</p>
-            <p><strong>Name:</strong> {selectedNft.name}</p>
-            <p><strong>Description:</strong> {selectedNft.description}</p>
-            <p><strong>Rarity:</strong> {selectedNft.rarity}</p>
-            <p><strong>Current Price:</strong> {selectedNft.price} APT</p>
-
-            <Input
-              type="number"
-              placeholder="Enter sale price in APT"
-              value={salePrice}
-              onChange={(e) => setSalePrice(e.target.value)}
-              style={{ marginTop: 10 }}
-            />
-          </>
-        )}
-      </Modal>
-
-      <Modal
-        title="Create Auction"
-        visible={isAuctionModalVisible}
-        onCancel={handleCancel}
-        footer={[
-          <Button key="cancel" onClick={handleCancel}>
-            Cancel
-          </Button>,
-          <Button key="confirm" type="primary" onClick={handleConfirmAuction}>
-            Create Auction
-          </Button>,
-        ]}
-      >
-        {selectedNft && (
-          <>
-            <p><strong>NFT ID:</strong> {selectedNft.id}</p>
-            <p><strong>Name:</strong> {selectedNft.name}</p>
-            <p><strong>Description:</strong> {selectedNft.description}</p>
-            <p><strong>Rarity:</strong> {selectedNft.rarity}</p>
-
-            <Input
-              type="number"
-              placeholder="Enter starting price in APT"
-              value={auctionStartingPrice}
-              onChange={(e) => setAuctionStartingPrice(e.target.value)}
-              style={{ marginTop: 10, marginBottom: 10 }}
-            />
-            <DatePicker
-              showTime
-              placeholder="Select auction end time"
-              onChange={(value) => setAuctionEndTime(value)}
-              style={{ width: '100%' }}
-            />
-          </>
-        )}
-      </Modal>
+      <SellModal nft={selectedNft} open={openModal === "sell"} onClose={handleCloseModal} />
+      <AuctionModal nft={selectedNft} open={openModal === "auction"} onClose={handleCloseModal} />
+      <BulkListModal nfts={selected} open={openModal === "bulk"} onClose={handleCloseModal} onDone={handleBulkDone} />
     </div>
   );  
 };
@@ -0,0 +1,279 @@
+import React, { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Alert, Button, Card, Col, Descriptions, Empty, Popconfirm, Row, Space, Spin, Table, Tag, Typography, message } from "antd";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { useNetwork } from "../context/NetworkContext";
+import { useQueryCache } from "../context/QueryCacheContext";
+import { useMarketplaceEvents } from "../context/MarketplaceEventsContext";
+import { useChainNow } from "../context/ChainClockContext";
+import { useQuery } from "../hooks/useQuery";
+import { useSettleAuction } from "../hooks/useSettleAuction";
+import { useListingActions } from "../hooks/useListingActions";
+import { usePriceReferences } from "../hooks/usePriceReferences";
+import { useModuleFunctions } from "../hooks/useModuleFunctions";
+import { PriceRecord, PriceRecordKind, isSale } from "../services/priceHistory";
+import { queryKeys } from "../services/queryCache";
+import AuctionCountdown from "../components/AuctionCountdown";
+import PriceChart from "../components/PriceChart";
+import PurchaseModal from "../components/PurchaseModal";
+import SellModal from "../components/SellModal";
+import AuctionModal from "../components/AuctionModal";
+import BidModal from "../components/BidModal";
+import MakeOfferModal from "../components/MakeOfferModal";
+import { formatApt, toAptNumber } from "../utils/amount";
+import { sameAddress, truncateAddress } from "../utils/address";
+import { isAuctionEnded } from "../utils/countdown";
+import { bidBlockedReason } from "../utils/bidRules";
+import { canCancelAuction } from "../utils/listing";
+import { bestOffer } from "../utils/offers";
+import { describeFloorDifference } from "../utils/floor";
+import { settlementAction, settlementLabels } from "../utils/settlement";
+import { rarityColors, rarityLabels } from "../utils/rarity";
+
+const { Title, Paragraph } = Typography;
+
+const recordLabels: { [kind in PriceRecordKind]: string } = {
+  listed: "Listed",
+  auctioned: "Put up for auction",
+  sale: "Sold",
+  auction: "Won at auction",
+};
+
+const NFTDetail: React.FC = () => {
+  const nftId = Number(useParams().id);
+  const { account } = useWallet();
+  const { marketplace, marketplaceAddr, dataSource } = useNetwork();
+  const cache = useQueryCache();
+  const { settle, settlingId, canSettle } = useSettleAuction();
+  const { cancelListing, cancelAuction, pendingNftId, supported } = useListingActions();
+  const { floors } = usePriceReferences();
+  const hasFunction = useModuleFunctions();
+  const now = useChainNow();
+  const [openModal, setOpenModal] = useState<"buy" | "sell" | "auction" | "bid" | "offer" | null>(null);
+
+  const { data: nft, error, isLoading } = useQuery(queryKeys.nft(marketplaceAddr, nftId), () =>
+    marketplace.getNftDetails(nftId)
+  );
+  const { data: auctions } = useQuery([...queryKeys.auctions(marketplaceAddr), "all"], () => marketplace.getAllAuctions());
+  const auction = auctions?.find((candidate) => candidate.nftId === nftId);
+  const { data: collections } = useQuery(
+    hasFunction("get_all_collections") ? queryKeys.collections(marketplaceAddr) : null,
+    () => marketplace.getAllCollections()
+  );
+  const collection = collections?.find((candidate) => candidate.nftIds.includes(nftId));
+  const { data: offers } = useQuery(hasFunction("get_all_offers") ? queryKeys.offers(marketplaceAddr) : null, () =>
+    marketplace.getAllOffers()
+  );
+  const { data: history, isLoading: isLoadingHistory } = useQuery([...queryKeys.nft(marketplaceAddr, nftId), "history"], () =>
+    dataSource.getPriceHistory(nftId)
+  );
+
+  // Listings and sales already mark this NFT stale; bids only touch its auction.
+  useMarketplaceEvents((event) => {
+    if ((event.kind === "bid" || event.kind === "auctionCreated") && event.nftId === nftId) {
+      cache.invalidate([...queryKeys.auctions(marketplaceAddr), "all"]);
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+        <Spin size="large" />
+      </div>
+    );
+  }
+
+  if (!nft) {
+    return (
+      <div style={{ padding: "20px" }}>
+        <Link to="/">← Back to marketplace</Link>
+        <Alert
+          type="error"
+          showIcon
+          style={{ marginTop: 16 }}
+          message={`NFT #${nftId} could not be loaded.`}
+          description={error ? "It may have been fused or never existed." : undefined}
+        />
+      </div>
+    );
+  }
+
+  // An auctioned NFT still belongs to its seller until the auction settles.
+  const isOwner = sameAddress(nft.owner, account?.address) || (!!auction && sameAddress(auction.seller, account?.address));
+  const sales = (history ?? []).filter(isSale);
+  const topOffer = bestOffer(offers ?? [], nftId, now);
+  const floor = floors[nft.rarity] ?? null;
+
+  const requireWallet = (modal: "buy" | "bid" | "offer") => {
+    if (!account) {
+      message.warning("Please connect your wallet first");
+      return;
+    }
+    setOpenModal(modal);
+  };
+
+  const renderState = () => {
+    if (auction) {
+      return (
+        <>
+          <Tag color="gold">On auction</Tag>
+          <Descriptions size="small" column={1} style={{ marginTop: 8 }}>
+            <Descriptions.Item label="Current bid">{formatApt(auction.currentBid)}</Descriptions.Item>
+            <Descriptions.Item label="Starting price">{formatApt(auction.startingPrice)}</Descriptions.Item>
+            <Descriptions.Item label="Time left">
+              <AuctionCountdown endTime={auction.endTime} now={now} />
+            </Descriptions.Item>
+          </Descriptions>
+          <Link to={`/auctions/${auction.id}`}>Bid history</Link>
+        </>
+      );
+    }
+    if (nft.for_sale) {
+      return (
+        <>
+          <Tag color="green">For sale</Tag>
+          <Title level={4} style={{ marginTop: 8 }}>{formatApt(nft.price)}</Title>
+          {floor !== null && <p>{describeFloorDifference(nft.price, floor, rarityLabels[nft.rarity])}</p>}
+        </>
+      );
+    }
+    return <Tag>Not for sale</Tag>;
+  };
+
+  const renderActions = () => {
+    if (auction) {
+      if (isAuctionEnded(auction.endTime, now)) {
+        const action = canSettle ? settlementAction(auction, account?.address, now) : null;
+        return action ? (
+          <Button type="primary" loading={settlingId === auction.id} onClick={() => settle(auction, action)}>
+            {settlementLabels[action]}
+          </Button>
+        ) : (
+          <Button disabled>Auction Ended</Button>
+        );
+      }
+      if (supported.cancelAuction && canCancelAuction(auction, account?.address, now)) {
+        return (
+          <Popconfirm title="Cancel this auction?" onConfirm={() => cancelAuction(auction)}>
+            <Button danger loading={pendingNftId === nft.id}>Cancel Auction</Button>
+          </Popconfirm>
+        );
+      }
+      const blocked = bidBlockedReason(auction, account?.address);
+      return (
+        <Button type="primary" disabled={!!blocked} title={blocked ?? undefined} onClick={() => requireWallet("bid")}>
+          Place Bid
+        </Button>
+      );
+    }
+    if (isOwner) {
+      return nft.for_sale ? (
+        <Space wrap>
+          {supported.updatePrice && (
+            <Button type="primary" onClick={() => setOpenModal("sell")}>Update Price</Button>
+          )}
+          {supported.cancelListing && (
+            <Popconfirm title="Take this NFT off the market?" onConfirm={() => cancelListing(nft)}>
+              <Button danger loading={pendingNftId === nft.id}>Cancel Listing</Button>
+            </Popconfirm>
+          )}
+        </Space>
+      ) : (
+        <Space wrap>
+          <Button type="primary" onClick={() => setOpenModal("sell")}>Sell</Button>
+          <Button onClick={() => setOpenModal("auction")}>Auction</Button>
+          <Link to="/fusion">
+            <Button>Fuse</Button>
+          </Link>
+        </Space>
+      );
+    }
+    return (
+      <Space wrap>
+        {nft.for_sale && (
+          <Button type="primary" onClick={() => requireWallet("buy")}>
+            Buy
+          </Button>
+        )}
+        {hasFunction("make_offer") && <Button onClick={() => requireWallet("offer")}>Make Offer</Button>}
+      </Space>
+    );
+  };
+
+  return (
+    <div style={{ padding: "20px" }}>
+      <Link to="/">← Back to marketplace</Link>
+      <Row gutter={[24, 24]} style={{ marginTop: 16 }}>
+        <Col xs={24} md={12}>
+          <img alt={nft.name} src={nft.uri} style={{ width: "100%", borderRadius: 8 }} />
+        </Col>
+        <Col xs={24} md={12}>
+          <Title level={2}>{nft.name}</Title>
+          <Tag color={rarityColors[nft.rarity]}>{rarityLabels[nft.rarity]}</Tag>
+          <Paragraph style={{ marginTop: 16 }}>{nft.description}</Paragraph>
+          <Descriptions size="small" column={1} style={{ marginBottom: 16 }}>
+            <Descriptions.Item label="ID">{nft.id}</Descriptions.Item>
+            {collection && (
+              <Descriptions.Item label="Collection">
+                <Link to={`/collections/${collection.id}`}>{collection.name}</Link>
+              </Descriptions.Item>
+            )}
+            <Descriptions.Item label="Owner">
+              <Link to={`/profile/${nft.owner}`}>{truncateAddress(nft.owner)}</Link>
+              {isOwner && <Tag color="orange" style={{ marginLeft: 8 }}>You</Tag>}
+            </Descriptions.Item>
+          </Descriptions>
+          <Card style={{ marginBottom: 16 }}>
+            {renderState()}
+            {topOffer && (
+              <p style={{ marginTop: 8 }}>
+                Best offer: {formatApt(topOffer.amount)} {topOffer.escrowed ? <Tag color="green">Escrowed</Tag> : <Tag color="orange">Not escrowed</Tag>}
+              </p>
+            )}
+            <div style={{ marginTop: 16 }}>{renderActions()}</div>
+          </Card>
+        </Col>
+      </Row>
+
+      <Card title="Price history" style={{ marginTop: 24 }}>
+        {isLoadingHistory ? (
+          <Spin />
+        ) : history && history.length > 0 ? (
+          <>
+            {sales.length > 0 && (
+              <PriceChart points={sales.map((sale) => ({ time: sale.timestamp, value: toAptNumber(sale.price) }))} />
+            )}
+            <Table<PriceRecord>
+              size="small"
+              rowKey={(record) => `${record.version}-${record.kind}`}
+              dataSource={[...history].reverse()}
+              pagination={{ pageSize: 10 }}
+              style={{ marginTop: 16 }}
+              columns={[
+                { title: "Time", dataIndex: "timestamp", render: (timestamp: number) => new Date(timestamp).toLocaleString() },
+                { title: "Event", dataIndex: "kind", render: (kind: PriceRecordKind) => recordLabels[kind] },
+                { title: "Price", dataIndex: "price", render: (price: string) => formatApt(price) },
+                { title: "From", dataIndex: "seller", render: (seller: string) => <Link to={`/profile/${seller}`}>{truncateAddress(seller)}</Link> },
+                {
+                  title: "To",
+                  dataIndex: "buyer",
+                  render: (buyer: string | null) => (buyer ? <Link to={`/profile/${buyer}`}>{truncateAddress(buyer)}</Link> : "—"),
+                },
+              ]}
+            />
+          </>
+        ) : (
+          <Empty description="No listings or sales yet" />
+        )}
+      </Card>
+
+      <PurchaseModal nft={nft} open={openModal === "buy"} onClose={() => setOpenModal(null)} />
+      <SellModal nft={nft} open={openModal === "sell"} onClose={() => setOpenModal(null)} />
+      <AuctionModal nft={nft} open={openModal === "auction"} onClose={() => setOpenModal(null)} />
+      <BidModal auction={auction ?? null} open={openModal === "bid"} onClose={() => setOpenModal(null)} />
+      <MakeOfferModal nft={nft} open={openModal === "offer"} onClose={() => setOpenModal(null)} />
+    </div>
+  );
+};
+
+export default NFTDetail;
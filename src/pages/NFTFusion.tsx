@@ -1,69 +1,59 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Card, Button, message, Modal, Spin, Row, Col } from 'antd';
-import { AptosClient, Types } from "aptos";
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, Button, message, Modal, Spin, Row, Col, Alert, Tag, Empty } from 'antd';
 import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { NFT } from "../services/marketplaceClient";
+import { useNetwork } from "../context/NetworkContext";
+import { useTransactions } from "../context/TransactionContext";
+import { describeTransactionError } from "../services/marketplaceErrors";
+import { useQuery } from "../hooks/useQuery";
+import { queryKeys } from "../services/queryCache";
+import { rarityColors, rarityLabels } from "../utils/rarity";
 
 const { Meta } = Card;
 
-interface NFT {
-  id: number;
-  name: string;
-  description: string;
-  uri: string;
-  rarity: number;
-}
+const RarityTag: React.FC<{ rarity: number }> = ({ rarity }) => (
+  <Tag color={rarityColors[rarity]}>{rarityLabels[rarity]}</Tag>
+);
 
-const NFTFusion: React.FC<{ marketplaceAddr: string }> = ({ marketplaceAddr }) => {
-  const [userNFTs, setUserNFTs] = useState<NFT[]>([]);
+const NFTFusion: React.FC = () => {
   const [selectedNFTs, setSelectedNFTs] = useState<NFT[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
   const [isFusing, setIsFusing] = useState(false);
+  const [fusionError, setFusionError] = useState<string | null>(null);
   const [fusionResult, setFusionResult] = useState<NFT | null>(null);
   const { account } = useWallet();
-  const client = new AptosClient("https://fullnode.testnet.aptoslabs.com/v1");
-
-  const fetchUserNFTs = useCallback(async () => {
-    if (!account) return;
-    setIsLoading(true);
-    try {
-      const response = await client.view({
-        function: `${marketplaceAddr}::NFTMarketplace::get_all_nfts_for_owner`,
-        type_arguments: [],
-        arguments: [marketplaceAddr, account.address, "100", "0"],
-      });
-
-      const nftIds = Array.isArray(response[0]) ? response[0] : response;
-      
-      const nfts: NFT[] = await Promise.all(nftIds.map(async (id: number) => {
-        const nftDetails = await client.view({
-          function: `${marketplaceAddr}::NFTMarketplace::get_nft_details`,
-          type_arguments: [],
-          arguments: [marketplaceAddr, id],
-        });
-
-        return {
-          id: Number(nftDetails[0]),
-          name: new TextDecoder().decode(new Uint8Array(nftDetails[2] as number[])),
-          description: new TextDecoder().decode(new Uint8Array(nftDetails[3] as number[])),
-          uri: new TextDecoder().decode(new Uint8Array(nftDetails[4] as number[])),
-          rarity: Number(nftDetails[7]),
-        };
-      }));
-
-      setUserNFTs(nfts);
-    } catch (error) {
-      console.error("Error fetching user NFTs:", error);
-      message.error("Failed to fetch your NFTs.");
-    } finally {
-      setIsLoading(false);
+  const { marketplace, marketplaceAddr } = useNetwork();
+  const { execute } = useTransactions();
+
+  // The fusion lab needs the whole collection at once, not a page of it.
+  const { data, error, isLoading } = useQuery(
+    account ? [...queryKeys.owner(marketplaceAddr, account.address), "all"] : null,
+    async () => {
+      const [nftIds, auctions] = await Promise.all([
+        marketplace.getEveryNftForOwner(account!.address),
+        marketplace.getAllAuctions(),
+      ]);
+      // One NFT failing to load leaves it out rather than blanking the page.
+      const results = await Promise.allSettled(nftIds.map((id) => marketplace.getNftDetails(id)));
+      const nfts = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+      const failedCount = results.length - nfts.length;
+
+      // NFTs that are listed or in an auction are locked and can't be fused.
+      const auctionedIds = new Set(auctions.map((auction) => auction.nftId));
+      const fusable = nfts.filter((nft) => !nft.for_sale && !auctionedIds.has(nft.id));
+      return { fusable, hiddenCount: nfts.length - fusable.length, failedCount };
     }
-  }, [account, marketplaceAddr]);
+  );
+  const userNFTs = useMemo(() => data?.fusable ?? [], [data]);
+  const hiddenCount = data?.hiddenCount ?? 0;
+  const failedCount = data?.failedCount ?? 0;
 
   useEffect(() => {
-    if (account) {
-      fetchUserNFTs();
-    }
-  }, [account, fetchUserNFTs]);
+    if (error) message.error("Failed to fetch your NFTs.");
+  }, [error]);
+
+  useEffect(() => {
+    setSelectedNFTs((selected) => selected.filter((nft) => userNFTs.some((candidate) => candidate.id === nft.id)));
+  }, [userNFTs]);
 
   const handleNFTSelect = (nft: NFT) => {
     if (selectedNFTs.find(selected => selected.id === nft.id)) {
@@ -82,38 +72,24 @@ const NFTFusion: React.FC<{ marketplaceAddr: string }> = ({ marketplaceAddr }) =
     }
 
     setIsFusing(true);
+    setFusionError(null);
     try {
-      const payload: Types.TransactionPayload = {
-        type: "entry_function_payload",
-        function: `${marketplaceAddr}::NFTMarketplace::fuse_nfts`,
-        type_arguments: [],
-        arguments: [marketplaceAddr, selectedNFTs[0].id.toString(), selectedNFTs[1].id.toString()],
-      };
-
-      const response = await (window as any).aptos.signAndSubmitTransaction(payload);
-      await client.waitForTransaction(response.hash);
-
-      // Fetch the newly created NFT
-      const newNFTResponse = await client.view({
-        function: `${marketplaceAddr}::NFTMarketplace::get_last_minted_nft`,
-        type_arguments: [],
-        arguments: [marketplaceAddr, account!.address],
-      });
-
-      const newNFT: NFT = {
-        id: Number(newNFTResponse[0]),
-        name: new TextDecoder().decode(new Uint8Array(newNFTResponse[1] as number[])),
-        description: new TextDecoder().decode(new Uint8Array(newNFTResponse[2] as number[])),
-        uri: new TextDecoder().decode(new Uint8Array(newNFTResponse[3] as number[])),
-        rarity: Number(newNFTResponse[4]),
-      };
-
-      setFusionResult(newNFT);
-      message.success("NFT Fusion successful!");
-      fetchUserNFTs(); // Refresh the user's NFTs
+      const [first, second] = selectedNFTs;
+      const txn = await execute(
+        `Fuse ${first.name} + ${second.name}`,
+        (signer) => marketplace.fuseNfts(signer, first.id, second.id),
+        [
+          queryKeys.nft(marketplaceAddr, first.id),
+          queryKeys.nft(marketplaceAddr, second.id),
+          queryKeys.owner(marketplaceAddr, first.owner),
+        ]
+      );
+
+      setSelectedNFTs([]);
+      setFusionResult(await marketplace.getNftDetails(marketplace.getFusedNftId(txn)));
     } catch (error) {
       console.error("Error during NFT fusion:", error);
-      message.error("Failed to fuse NFTs. Please try again.");
+      setFusionError(describeTransactionError(error));
     } finally {
       setIsFusing(false);
     }
@@ -124,12 +100,40 @@ const NFTFusion: React.FC<{ marketplaceAddr: string }> = ({ marketplaceAddr }) =
       <h1>NFT Fusion Lab</h1>
       <p>Select two NFTs to fuse them into a new, potentially rarer NFT!</p>
 
+      <Card title="Fusion Rules" size="small" style={{ marginBottom: 20 }}>
+        <ul style={{ paddingLeft: 20 }}>
+          <li>NFTs that are listed for sale or in an auction can't be fused.</li>
+          <li>Both NFTs are burned and a new NFT is minted to your account.</li>
+          <li>
+            The contract decides which pairs can fuse and rolls the new NFT's rarity. It publishes neither, so a pair
+            it doesn't accept is only reported when you try to fuse it.
+          </li>
+        </ul>
+      </Card>
+
       {isLoading ? (
         <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
           <Spin size="large" />
         </div>
       ) : (
         <>
+          {hiddenCount > 0 && (
+            <Alert
+              type="info"
+              showIcon
+              style={{ marginBottom: 16 }}
+              message={`${hiddenCount} of your NFTs are hidden because they are listed for sale or in an auction.`}
+            />
+          )}
+          {failedCount > 0 && (
+            <Alert
+              type="warning"
+              showIcon
+              style={{ marginBottom: 16 }}
+              message={`${failedCount} of your NFTs couldn't be loaded and are left out.`}
+            />
+          )}
+          {userNFTs.length === 0 && <Empty description="No NFTs available for fusion" />}
           <Row gutter={[16, 16]}>
             {userNFTs.map(nft => (
               <Col key={nft.id} xs={24} sm={12} md={8} lg={6}>
@@ -139,12 +143,14 @@ const NFTFusion: React.FC<{ marketplaceAddr: string }> = ({ marketplaceAddr }) =
                   cover={<img alt={nft.name} src={nft.uri} style={{ height: 240, objectFit: 'cover' }} />}
                   onClick={() => handleNFTSelect(nft)}
                 >
-                  <Meta title={nft.name} description={`Rarity: ${nft.rarity}`} />
+                  <Meta title={nft.name} description={<RarityTag rarity={nft.rarity} />} />
                 </Card>
               </Col>
             ))}
           </Row>
 
+          {fusionError && <Alert type="error" showIcon style={{ marginBottom: 16 }} message={fusionError} />}
+
           <Button 
             type="primary" 
             onClick={handleFusion} 
@@ -156,7 +162,7 @@ const NFTFusion: React.FC<{ marketplaceAddr: string }> = ({ marketplaceAddr }) =
 
           <Modal
             title="Fusion Result"
-            visible={!!fusionResult}
+            open={!!fusionResult}
             onOk={() => setFusionResult(null)}
             onCancel={() => setFusionResult(null)}
           >
@@ -165,7 +171,7 @@ const NFTFusion: React.FC<{ marketplaceAddr: string }> = ({ marketplaceAddr }) =
                 cover={<img alt={fusionResult.name} src={fusionResult.uri} />}
               >
                 <Meta title={fusionResult.name} description={fusionResult.description} />
-                <p>Rarity: {fusionResult.rarity}</p>
+                <p>Rarity: <RarityTag rarity={fusionResult.rarity} /></p>
               </Card>
             )}
           </Modal>
@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Alert, Card, Col, Empty, Pagination, Row, Spin, Table, Tabs, Tag, Typography, message } from "antd";
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { NFT } from "../services/marketplaceClient";
+import { useNetwork } from "../context/NetworkContext";
+import { useChainNow } from "../context/ChainClockContext";
+import { useQuery } from "../hooks/useQuery";
+import { paginationTotal } from "../services/nftDataSource";
+import { PriceRecord } from "../services/priceHistory";
+import { queryKeys } from "../services/queryCache";
+import AuctionCountdown from "../components/AuctionCountdown";
+import { formatApt } from "../utils/amount";
+import { normalizeAddress, sameAddress, truncateAddress } from "../utils/address";
+import { rarityColors, rarityLabels } from "../utils/rarity";
+
+const { Title, Text } = Typography;
+const { Meta } = Card;
+
+const isAddress = (address: string) => /^0x[0-9a-fA-F]{1,64}$/.test(address);
+
+const NftCard: React.FC<{ nft: NFT }> = ({ nft }) => (
+  <Card
+    hoverable
+    cover={
+      <Link to={`/nft/${nft.id}`}>
+        <img alt={nft.name} src={nft.uri} style={{ height: 200, width: '100%', objectFit: 'cover' }} />
+      </Link>
+    }
+  >
+    <Tag color={rarityColors[nft.rarity]} style={{ marginBottom: 8 }}>
+      {rarityLabels[nft.rarity]}
+    </Tag>
+    <Meta
+      title={<Link to={`/nft/${nft.id}`}>{nft.name}</Link>}
+      description={nft.for_sale ? `Listed for ${formatApt(nft.price)}` : "Not for sale"}
+    />
+  </Card>
+);
+
+const Profile: React.FC = () => {
+  const address = useParams().address ?? "";
+  const pageSize = 8;
+  const activityPageSize = 10;
+  const [currentPage, setCurrentPage] = useState(1);
+  const [listingsPage, setListingsPage] = useState(1);
+  const [activityPage, setActivityPage] = useState(1);
+  const { account } = useWallet();
+  const { marketplace, marketplaceAddr, dataSource } = useNetwork();
+  const now = useChainNow();
+  const valid = isAddress(address);
+  const ownerKey = valid ? queryKeys.owner(marketplaceAddr, address) : null;
+
+  useEffect(() => {
+    setCurrentPage(1);
+    setListingsPage(1);
+    setActivityPage(1);
+  }, [address]);
+
+  const query = { offset: (currentPage - 1) * pageSize, limit: pageSize };
+  const { data: page, error, isLoading } = useQuery(ownerKey && [...ownerKey, query], () =>
+    dataSource.getOwnerNfts(address, query)
+  );
+  const listingsQuery = { offset: (listingsPage - 1) * pageSize, limit: pageSize };
+  const { data: listings } = useQuery(ownerKey && [...ownerKey, "listings", listingsQuery], () =>
+    dataSource.getOwnerListings(address, listingsQuery)
+  );
+  const { data: auctions } = useQuery([...queryKeys.auctions(marketplaceAddr), "all"], () => marketplace.getAllAuctions());
+  const activityQuery = { offset: (activityPage - 1) * activityPageSize, limit: activityPageSize };
+  const { data: activity, isLoading: isLoadingActivity } = useQuery(ownerKey && [...ownerKey, "activity", activityQuery], () =>
+    dataSource.getAccountActivity(address, activityQuery)
+  );
+
+  useEffect(() => {
+    if (error) message.error("Failed to fetch this collection.");
+  }, [error]);
+
+  if (!valid) {
+    return (
+      <div style={{ padding: "20px" }}>
+        <Alert type="error" showIcon message={`"${address}" is not a valid account address.`} />
+      </div>
+    );
+  }
+
+  const myAuctions = (auctions ?? []).filter((auction) => sameAddress(auction.seller, address));
+  const nfts = page?.items ?? [];
+
+  const renderAccount = (other: string | null) =>
+    other ? <Link to={`/profile/${other}`}>{truncateAddress(other)}</Link> : "—";
+
+  const collectionTab = isLoading ? (
+    <Spin size="large" />
+  ) : nfts.length ? (
+    <>
+      <Row gutter={[16, 16]}>
+        {nfts.map((nft) => (
+          <Col xs={24} sm={12} md={8} lg={6} key={nft.id}>
+            <NftCard nft={nft} />
+          </Col>
+        ))}
+      </Row>
+      <Pagination
+        current={currentPage}
+        pageSize={pageSize}
+        total={page ? paginationTotal(page, query) : 0}
+        onChange={(page) => setCurrentPage(page)}
+        style={{ marginTop: 20, textAlign: 'center' }}
+      />
+    </>
+  ) : (
+    <Empty description="No NFTs in this collection" />
+  );
+
+  const listingsTotal = listings ? paginationTotal(listings, listingsQuery) : 0;
+  const listingsTab = listings?.items.length ? (
+    <>
+      <Row gutter={[16, 16]}>
+        {listings.items.map((nft) => (
+          <Col xs={24} sm={12} md={8} lg={6} key={nft.id}>
+            <NftCard nft={nft} />
+          </Col>
+        ))}
+      </Row>
+      <Pagination
+        current={listingsPage}
+        pageSize={pageSize}
+        total={listingsTotal}
+        hideOnSinglePage
+        onChange={(page) => setListingsPage(page)}
+        style={{ marginTop: 20, textAlign: 'center' }}
+      />
+    </>
+  ) : (
+    <Empty description="No active listings" />
+  );
+
+  const auctionsTab = myAuctions.length ? (
+    <Row gutter={[16, 16]}>
+      {myAuctions.map((auction) => (
+        <Col xs={24} sm={12} md={8} lg={6} key={auction.id}>
+          <Card
+            hoverable
+            cover={
+              <Link to={`/nft/${auction.nftId}`}>
+                <img alt={auction.nftDetails.name} src={auction.nftDetails.uri} style={{ height: 200, width: '100%', objectFit: 'cover' }} />
+              </Link>
+            }
+          >
+            <Meta title={auction.nftDetails.name} description={`Current bid: ${formatApt(auction.currentBid)}`} />
+            <p style={{ marginTop: 8 }}><AuctionCountdown endTime={auction.endTime} now={now} /></p>
+            <Link to={`/auctions/${auction.id}`}>Bid history</Link>
+          </Card>
+        </Col>
+      ))}
+    </Row>
+  ) : (
+    <Empty description="No active auctions" />
+  );
+
+  const activityTab = (
+    <Table<PriceRecord>
+      size="small"
+      loading={isLoadingActivity}
+      rowKey={(record) => `${record.version}-${record.kind}`}
+      dataSource={activity?.items ?? []}
+      pagination={{
+        current: activityPage,
+        pageSize: activityPageSize,
+        total: activity ? paginationTotal(activity, activityQuery) : 0,
+        onChange: (page) => setActivityPage(page),
+      }}
+      columns={[
+        { title: "Time", dataIndex: "timestamp", render: (timestamp: number) => new Date(timestamp).toLocaleString() },
+        {
+          title: "Type",
+          render: (_, record) =>
+            sameAddress(record.seller, address) ? <Tag color="green">Sold</Tag> : <Tag color="blue">Bought</Tag>,
+        },
+        { title: "NFT", dataIndex: "nftId", render: (nftId: number) => <Link to={`/nft/${nftId}`}>#{nftId}</Link> },
+        { title: "Price", dataIndex: "price", render: (price: string) => formatApt(price) },
+        {
+          title: "Counterparty",
+          render: (_, record) => renderAccount(sameAddress(record.seller, address) ? record.buyer : record.seller),
+        },
+        { title: "Via", dataIndex: "kind", render: (kind: string) => (kind === "auction" ? "Auction" : "Fixed price") },
+      ]}
+    />
+  );
+
+  return (
+    <div style={{ padding: "20px" }}>
+      <Title level={2} style={{ marginBottom: 4 }}>
+        Profile {sameAddress(address, account?.address) && <Tag color="orange">You</Tag>}
+      </Title>
+      <Text copyable={{ text: normalizeAddress(address) }} type="secondary">
+        {address}
+      </Text>
+      <Tabs
+        style={{ marginTop: 20 }}
+        items={[
+          { key: "collection", label: "Collection", children: collectionTab },
+          { key: "listings", label: `Listings (${listingsTotal})`, children: listingsTab },
+          { key: "auctions", label: `Auctions (${myAuctions.length})`, children: auctionsTab },
+          { key: "activity", label: "Activity", children: activityTab },
+        ]}
+      />
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,243 @@
+import MarketplaceClient from './marketplaceClient';
+import { IndexerNftDataSource } from './indexerDataSource';
+import { ViewNftDataSource } from './nftDataSource';
+import { encodeString } from '../utils/codec';
+
+const indexerNft = {
+  id: '7',
+  owner: '0xabc',
+  name: 'Seven',
+  description: 'lucky',
+  uri: 'https://example.com/7.png',
+  price: '150000000',
+  for_sale: true,
+  rarity: 2,
+  listed_at: '1700000000',
+};
+
+const mockClient = (data: object) => ({ request: jest.fn().mockResolvedValue(data) });
+
+test('pushes market filters and paging to the indexer', async () => {
+  const client = mockClient({ marketplace_nfts: [indexerNft], marketplace_nfts_aggregate: { aggregate: { count: 9 } } });
+  const source = new IndexerNftDataSource(client as any, '0xmkt');
+
+  const page = await source.getMarketNfts({
+    offset: 8,
+    limit: 8,
+    rarity: 2,
+    minPrice: BigInt(100000000),
+    search: 'luck',
+    sort: 'price_desc',
+  });
+
+  const variables = client.request.mock.calls[0][1];
+  expect(variables).toEqual({
+    where: {
+      marketplace_address: { _eq: '0xmkt' },
+      rarity: { _eq: 2 },
+      price: { _gte: '100000000' },
+      _or: [{ name: { _ilike: '%luck%' } }, { description: { _ilike: '%luck%' } }],
+    },
+    orderBy: [{ price: 'desc' }, { id: 'asc' }],
+    limit: 8,
+    offset: 8,
+  });
+  expect(page).toEqual({
+    items: [{ ...indexerNft, id: 7, listed_at: 1700000000000 }],
+    total: 9,
+    hasMore: false,
+  });
+});
+
+test('matches search terms literally and sorts unlisted NFTs last', async () => {
+  const client = mockClient({ marketplace_nfts: [], marketplace_nfts_aggregate: { aggregate: { count: 0 } } });
+  const source = new IndexerNftDataSource(client as any, '0xmkt');
+
+  await source.getMarketNfts({ offset: 0, limit: 8, search: '100%_\\', sort: 'date_desc' });
+
+  const variables = client.request.mock.calls[0][1];
+  expect(variables.where._or[0]).toEqual({ name: { _ilike: '%100\\%\\_\\\\%' } });
+  expect(variables.orderBy[0]).toEqual({ listed_at: 'desc_nulls_last' });
+});
+
+test('maps auctions and their NFT details', async () => {
+  const client = mockClient({
+    marketplace_auctions: [
+      {
+        id: 3,
+        nft_id: '7',
+        seller: '0xabc',
+        starting_price: '100000000',
+        current_bid: '120000000',
+        highest_bidder: '0xdef',
+        end_time: '1700003600',
+        nft: { name: 'Seven', description: 'lucky', uri: 'https://example.com/7.png', rarity: 2 },
+      },
+    ],
+    marketplace_auctions_aggregate: { aggregate: { count: 20 } },
+  });
+  const source = new IndexerNftDataSource(client as any, '0xmkt');
+
+  const page = await source.getAuctions({ offset: 0, limit: 8 });
+  expect(client.request.mock.calls[0][1].where).toEqual({ marketplace_address: { _eq: '0xmkt' }, settled: { _eq: false } });
+  expect(page.total).toBe(20);
+  expect(page.hasMore).toBe(true);
+  expect(page.items[0]).toEqual({
+    id: 3,
+    nftId: 7,
+    seller: '0xabc',
+    startingPrice: '100000000',
+    currentBid: '120000000',
+    highestBidder: '0xdef',
+    endTime: 1700003600,
+    nftDetails: { name: 'Seven', description: 'lucky', uri: 'https://example.com/7.png', rarity: 2 },
+  });
+});
+
+test("queries an account's sales and maps them to price records", async () => {
+  const client = mockClient({
+    marketplace_sales: [
+      {
+        transaction_version: '42',
+        timestamp: '1700000000',
+        kind: 'auction',
+        nft_id: 7,
+        price: '150000000',
+        seller: '0xabc',
+        buyer: '0xdef',
+      },
+    ],
+    marketplace_sales_aggregate: { aggregate: { count: 1 } },
+  });
+  const source = new IndexerNftDataSource(client as any, '0xmkt');
+
+  const page = await source.getAccountActivity('0xdef', { offset: 0, limit: 10 });
+  expect(client.request.mock.calls[0][1].where).toEqual({
+    marketplace_address: { _eq: '0xmkt' },
+    _or: [{ seller: { _eq: '0xdef' } }, { buyer: { _eq: '0xdef' } }],
+  });
+  expect(page.items).toEqual([
+    { kind: 'auction', nftId: 7, price: '150000000', seller: '0xabc', buyer: '0xdef', version: '42', timestamp: 1700000000000 },
+  ]);
+});
+
+test('reads each rarity floor from one request', async () => {
+  const floor = (price: string | null) => ({ aggregate: { min: { price } } });
+  const client = mockClient({ rarity_1: floor('100'), rarity_2: floor(null), rarity_3: floor('300'), rarity_4: floor(null) });
+  const source = new IndexerNftDataSource(client as any, '0xmkt');
+
+  expect(await source.getFloors()).toEqual({ 1: BigInt(100), 2: null, 3: BigInt(300), 4: null });
+  expect(client.request).toHaveBeenCalledTimes(1);
+  expect(client.request.mock.calls[0][1]).toEqual({ marketplaceAddr: '0xmkt' });
+});
+
+test('looks up last sales only for the requested NFTs', async () => {
+  const sale = { transaction_version: '42', timestamp: '1700000000', kind: 'sale', nft_id: '7', price: '5', seller: '0xa', buyer: '0xb' };
+  const client = mockClient({ marketplace_sales: [sale] });
+  const source = new IndexerNftDataSource(client as any, '0xmkt');
+
+  const sales = await source.getLastSales([7, 8]);
+  expect(client.request.mock.calls[0][1]).toEqual({ marketplaceAddr: '0xmkt', nftIds: [7, 8] });
+  expect(Array.from(sales.keys())).toEqual([7]);
+  expect(sales.get(7)?.price).toBe('5');
+  expect(await source.getLastSales([])).toEqual(new Map());
+  expect(client.request).toHaveBeenCalledTimes(1);
+});
+
+test('reads every collection with its aggregated stats in one request', async () => {
+  const count = (n: number) => ({ aggregate: { count: n } });
+  const client = mockClient({
+    marketplace_collections: [
+      {
+        id: '4',
+        name: 'Apes',
+        creator: '0xabc',
+        cover: [{ uri: 'https://example.com/1.png' }],
+        items: count(3),
+        listed: { aggregate: { count: 1, min: { price: '250' } } },
+        owners: count(2),
+        sales: { aggregate: { count: 2, sum: { price: '900' } } },
+        rarity_1: count(2),
+        rarity_2: count(0),
+        rarity_3: count(1),
+        rarity_4: count(0),
+      },
+    ],
+  });
+  const source = new IndexerNftDataSource(client as any, '0xmkt');
+
+  expect(await source.getCollections()).toEqual([
+    {
+      collection: { id: 4, name: 'Apes', creator: '0xabc' },
+      stats: {
+        items: 3,
+        floorPrice: BigInt(250),
+        listedCount: 1,
+        volume: BigInt(900),
+        salesCount: 2,
+        ownerCount: 2,
+        rarityCounts: { 1: 2, 2: 0, 3: 1, 4: 0 },
+      },
+      cover: 'https://example.com/1.png',
+    },
+  ]);
+  expect(client.request).toHaveBeenCalledTimes(1);
+});
+
+test("reads one NFT's listings and sales and merges them in chain order", async () => {
+  const client = mockClient({
+    marketplace_listings: [
+      { transaction_version: '10', timestamp: '1700000000', kind: 'listed', nft_id: '7', price: '100', seller: '0xa' },
+      { transaction_version: '30', timestamp: '1700000300', kind: 'auctioned', nft_id: '7', price: '90', seller: '0xb' },
+    ],
+    marketplace_sales: [
+      { transaction_version: '20', timestamp: '1700000200', kind: 'sale', nft_id: '7', price: '100', seller: '0xa', buyer: '0xb' },
+    ],
+  });
+  const source = new IndexerNftDataSource(client as any, '0xmkt');
+
+  const history = await source.getPriceHistory(7);
+  expect(client.request.mock.calls[0][1]).toEqual({ marketplaceAddr: '0xmkt', nftId: 7 });
+  expect(history.map((record) => [record.kind, record.buyer, record.timestamp])).toEqual([
+    ['listed', null, 1700000000000],
+    ['sale', '0xb', 1700000200000],
+    ['auctioned', null, 1700000300000],
+  ]);
+});
+
+test('reads the market history since the start of a window in seconds', async () => {
+  const client = mockClient({
+    marketplace_listings: [{ transaction_version: '30', timestamp: '1700000300', kind: 'listed', nft_id: '2', price: '90', seller: '0xb' }],
+    marketplace_sales: [
+      { transaction_version: '20', timestamp: '1700000200', kind: 'sale', nft_id: '7', price: '100', seller: '0xa', buyer: '0xb' },
+    ],
+  });
+  const source = new IndexerNftDataSource(client as any, '0xmkt');
+
+  const history = await source.getMarketHistory(1700000000500);
+  expect(client.request.mock.calls[0][1]).toEqual({ marketplaceAddr: '0xmkt', from: 1700000000 });
+  expect(history.map((record) => record.nftId)).toEqual([7, 2]);
+  await source.getMarketHistory(null);
+  expect(client.request.mock.calls[1][1]).toEqual({ marketplaceAddr: '0xmkt', from: 0 });
+});
+
+test('maps an NFT the same way as the view source', async () => {
+  const indexer = new IndexerNftDataSource(
+    mockClient({ marketplace_nfts: [indexerNft], marketplace_nfts_aggregate: { aggregate: { count: 1 } } }) as any,
+    '0xmkt'
+  );
+  // The Marketplace resource as the node returns it: text as bytes, u64s as strings.
+  const resource = {
+    ...indexerNft,
+    name: encodeString(indexerNft.name),
+    description: encodeString(indexerNft.description),
+    uri: encodeString(indexerNft.uri),
+  };
+  const client = { getAccountResource: jest.fn().mockResolvedValue({ data: { nfts: [resource] } }) };
+  const view = new ViewNftDataSource(new MarketplaceClient(client as any, '0xmkt'));
+
+  const query = { offset: 0, limit: 8, listedAfter: 1699999999000 };
+  const [fromIndexer, fromView] = await Promise.all([indexer.getMarketNfts(query), view.getMarketNfts(query)]);
+  expect(fromView.items).toEqual(fromIndexer.items);
+  expect(fromView.items[0].listed_at).toBe(1700000000000);
+});
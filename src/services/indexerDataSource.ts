@@ -0,0 +1,506 @@
+import type { GraphQLClient } from "graphql-request";
+import { Auction, NFT, listedAtMs } from "./marketplaceClient";
+import {
+  AuctionQuery,
+  AuctionSort,
+  CollectionNftsQuery,
+  MarketQuery,
+  MarketSort,
+  NftDataSource,
+  Page,
+  PageQuery,
+  RarityFloors,
+} from "./nftDataSource";
+import { PriceRecord, compareRecords } from "./priceHistory";
+import { CollectionSummary } from "../utils/collections";
+import { MAX_RARITY } from "../utils/rarity";
+
+// Queries the marketplace processor running on our Aptos indexer. It mirrors
+// the NFTMarketplace resources into `marketplace_nfts` and
+// `marketplace_auctions`, with text fields already decoded and u64s as strings.
+// An auction's row stays after it's settled, marked `settled`.
+// Purchases and auctions settled with a winner go into `marketplace_sales`,
+// one row per event, with the time of their transaction; listings and auction
+// starts go into `marketplace_listings` the same way. Collections go into
+// `marketplace_collections`, whose `nfts` and `sales` relationships reach the
+// NFTs and sales in each.
+
+const NFT_FIELDS = `
+  id
+  owner
+  name
+  description
+  uri
+  price
+  for_sale
+  rarity
+  listed_at
+`;
+
+const MARKET_NFTS_QUERY = `
+  query MarketNfts($where: marketplace_nfts_bool_exp!, $orderBy: [marketplace_nfts_order_by!], $limit: Int!, $offset: Int!) {
+    marketplace_nfts(where: $where, order_by: $orderBy, limit: $limit, offset: $offset) {
+      ${NFT_FIELDS}
+    }
+    marketplace_nfts_aggregate(where: $where) {
+      aggregate {
+        count
+      }
+    }
+  }
+`;
+
+const AUCTIONS_QUERY = `
+  query Auctions($where: marketplace_auctions_bool_exp!, $orderBy: [marketplace_auctions_order_by!], $limit: Int!, $offset: Int!) {
+    marketplace_auctions(where: $where, order_by: $orderBy, limit: $limit, offset: $offset) {
+      id
+      nft_id
+      seller
+      starting_price
+      current_bid
+      highest_bidder
+      end_time
+      nft {
+        name
+        description
+        uri
+        rarity
+      }
+    }
+    marketplace_auctions_aggregate(where: $where) {
+      aggregate {
+        count
+      }
+    }
+  }
+`;
+
+const SALE_FIELDS = `
+  transaction_version
+  timestamp
+  kind
+  nft_id
+  price
+  seller
+  buyer
+`;
+
+const SALES_QUERY = `
+  query Sales($where: marketplace_sales_bool_exp!, $limit: Int!, $offset: Int!) {
+    marketplace_sales(where: $where, order_by: [{ transaction_version: desc }], limit: $limit, offset: $offset) {
+      ${SALE_FIELDS}
+    }
+    marketplace_sales_aggregate(where: $where) {
+      aggregate {
+        count
+      }
+    }
+  }
+`;
+
+const LAST_SALES_QUERY = `
+  query LastSales($marketplaceAddr: String!, $nftIds: [bigint!]!) {
+    marketplace_sales(
+      where: { marketplace_address: { _eq: $marketplaceAddr }, nft_id: { _in: $nftIds } }
+      distinct_on: nft_id
+      order_by: [{ nft_id: asc }, { transaction_version: desc }]
+    ) {
+      ${SALE_FIELDS}
+    }
+  }
+`;
+
+const LISTING_FIELDS = `
+  transaction_version
+  timestamp
+  kind
+  nft_id
+  price
+  seller
+`;
+
+const PRICE_HISTORY_QUERY = `
+  query PriceHistory($marketplaceAddr: String!, $nftId: bigint!) {
+    marketplace_listings(
+      where: { marketplace_address: { _eq: $marketplaceAddr }, nft_id: { _eq: $nftId } }
+      order_by: [{ transaction_version: asc }]
+    ) {
+      ${LISTING_FIELDS}
+    }
+    marketplace_sales(
+      where: { marketplace_address: { _eq: $marketplaceAddr }, nft_id: { _eq: $nftId } }
+      order_by: [{ transaction_version: asc }]
+    ) {
+      ${SALE_FIELDS}
+    }
+  }
+`;
+
+const MARKET_HISTORY_QUERY = `
+  query MarketHistory($marketplaceAddr: String!, $from: bigint!) {
+    marketplace_listings(
+      where: { marketplace_address: { _eq: $marketplaceAddr }, timestamp: { _gte: $from } }
+      order_by: [{ transaction_version: asc }]
+    ) {
+      ${LISTING_FIELDS}
+    }
+    marketplace_sales(
+      where: { marketplace_address: { _eq: $marketplaceAddr }, timestamp: { _gte: $from } }
+      order_by: [{ transaction_version: asc }]
+    ) {
+      ${SALE_FIELDS}
+    }
+  }
+`;
+
+const RARITIES = Array.from({ length: MAX_RARITY }, (_, i) => i + 1);
+
+// One aggregate per rarity, aliased `rarity_<n>`, so every floor comes back in
+// a single request.
+const floorField = (rarity: number) => `
+    rarity_${rarity}: marketplace_nfts_aggregate(
+      where: { marketplace_address: { _eq: $marketplaceAddr }, for_sale: { _eq: true }, rarity: { _eq: ${rarity} } }
+    ) {
+      aggregate {
+        min {
+          price
+        }
+      }
+    }`;
+
+const FLOORS_QUERY = `
+  query Floors($marketplaceAddr: String!) {${RARITIES.map(floorField).join("")}
+  }
+`;
+
+// One count per rarity, aliased like the floors.
+const rarityCountField = (rarity: number) => `
+      rarity_${rarity}: nfts_aggregate(where: { rarity: { _eq: ${rarity} } }) {
+        aggregate {
+          count
+        }
+      }`;
+
+const COLLECTIONS_QUERY = `
+  query Collections($marketplaceAddr: String!) {
+    marketplace_collections(where: { marketplace_address: { _eq: $marketplaceAddr } }, order_by: [{ id: asc }]) {
+      id
+      name
+      creator
+      cover: nfts(order_by: [{ id: asc }], limit: 1) {
+        uri
+      }
+      items: nfts_aggregate {
+        aggregate {
+          count
+        }
+      }
+      listed: nfts_aggregate(where: { for_sale: { _eq: true } }) {
+        aggregate {
+          count
+          min {
+            price
+          }
+        }
+      }
+      owners: nfts_aggregate {
+        aggregate {
+          count(columns: owner, distinct: true)
+        }
+      }
+      sales: sales_aggregate {
+        aggregate {
+          count
+          sum {
+            price
+          }
+        }
+      }${RARITIES.map(rarityCountField).join("")}
+    }
+  }
+`;
+
+interface IndexerNFT {
+  id: number | string;
+  owner: string;
+  name: string;
+  description: string;
+  uri: string;
+  price: number | string;
+  for_sale: boolean;
+  rarity: number;
+  listed_at: number | string | null;
+}
+
+interface IndexerAuction {
+  id: number | string;
+  nft_id: number | string;
+  seller: string;
+  starting_price: number | string;
+  current_bid: number | string;
+  highest_bidder: string;
+  end_time: number | string;
+  nft: { name: string; description: string; uri: string; rarity: number };
+}
+
+interface IndexerSale {
+  transaction_version: number | string;
+  timestamp: number | string; // Unix seconds
+  kind: "sale" | "auction";
+  nft_id: number | string;
+  price: number | string;
+  seller: string;
+  buyer: string;
+}
+
+interface IndexerListing {
+  transaction_version: number | string;
+  timestamp: number | string; // Unix seconds
+  kind: "listed" | "auctioned";
+  nft_id: number | string;
+  price: number | string;
+  seller: string;
+}
+
+type IndexerCollection = {
+  id: number | string;
+  name: string;
+  creator: string;
+  cover: { uri: string }[];
+  items: Aggregate;
+  listed: { aggregate: { count: number; min: { price: number | string | null } } };
+  owners: Aggregate;
+  sales: { aggregate: { count: number; sum: { price: number | string | null } } };
+} & { [alias: `rarity_${number}`]: Aggregate };
+
+interface PriceAggregate {
+  aggregate: { min: { price: number | string | null } };
+}
+
+interface Aggregate {
+  aggregate: { count: number };
+}
+
+const orderBys: { [key in MarketSort]: object } = {
+  price_asc: { price: "asc" },
+  price_desc: { price: "desc" },
+  date_asc: { listed_at: "asc_nulls_last" },
+  date_desc: { listed_at: "desc_nulls_last" },
+  rarity_asc: { rarity: "asc" },
+  rarity_desc: { rarity: "desc" },
+};
+
+const auctionOrderBys: { [key in AuctionSort]: object } = {
+  ending_soon: { end_time: "asc" },
+  newest: { id: "desc" },
+};
+
+// `_ilike` treats `%` and `_` as wildcards and `\` as their escape.
+export const escapeLikePattern = (text: string) => text.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+const toNft = (nft: IndexerNFT): NFT => ({
+  id: Number(nft.id),
+  owner: nft.owner,
+  name: nft.name,
+  description: nft.description,
+  uri: nft.uri,
+  price: String(nft.price),
+  for_sale: nft.for_sale,
+  rarity: Number(nft.rarity),
+  listed_at: listedAtMs(nft.listed_at),
+});
+
+const toAuction = (auction: IndexerAuction): Auction => ({
+  id: Number(auction.id),
+  nftId: Number(auction.nft_id),
+  seller: auction.seller,
+  startingPrice: String(auction.starting_price),
+  currentBid: String(auction.current_bid),
+  highestBidder: auction.highest_bidder,
+  endTime: Number(auction.end_time),
+  nftDetails: {
+    name: auction.nft.name,
+    description: auction.nft.description,
+    uri: auction.nft.uri,
+    rarity: Number(auction.nft.rarity),
+  },
+});
+
+const toPriceRecord = (row: IndexerSale | IndexerListing): PriceRecord => ({
+  kind: row.kind,
+  nftId: Number(row.nft_id),
+  price: String(row.price),
+  seller: row.seller,
+  buyer: "buyer" in row ? row.buyer : null,
+  version: String(row.transaction_version),
+  timestamp: Number(row.timestamp) * 1000,
+});
+
+interface PriceRows {
+  marketplace_listings: IndexerListing[];
+  marketplace_sales: IndexerSale[];
+}
+
+// Listings and sales come from separate tables; put them back in chain order.
+const toPriceRecords = (rows: PriceRows): PriceRecord[] =>
+  [...rows.marketplace_listings, ...rows.marketplace_sales].map(toPriceRecord).sort(compareRecords);
+
+const toCollectionSummary = (collection: IndexerCollection): CollectionSummary => {
+  const { min } = collection.listed.aggregate;
+  const { sum } = collection.sales.aggregate;
+  return {
+    collection: { id: Number(collection.id), name: collection.name, creator: collection.creator },
+    stats: {
+      items: collection.items.aggregate.count,
+      floorPrice: min.price === null ? null : BigInt(min.price),
+      listedCount: collection.listed.aggregate.count,
+      volume: BigInt(sum.price ?? 0),
+      salesCount: collection.sales.aggregate.count,
+      ownerCount: collection.owners.aggregate.count,
+      rarityCounts: Object.fromEntries(RARITIES.map((rarity) => [rarity, collection[`rarity_${rarity}`].aggregate.count])),
+    },
+    cover: collection.cover[0]?.uri ?? null,
+  };
+};
+
+const toPage = <T>(items: T[], aggregate: Aggregate, query: PageQuery): Page<T> => ({
+  items,
+  total: aggregate.aggregate.count,
+  hasMore: query.offset + items.length < aggregate.aggregate.count,
+});
+
+export class IndexerNftDataSource implements NftDataSource {
+  readonly client: Pick<GraphQLClient, "request">;
+  readonly marketplaceAddr: string;
+
+  constructor(client: Pick<GraphQLClient, "request">, marketplaceAddr: string) {
+    this.client = client;
+    this.marketplaceAddr = marketplaceAddr;
+  }
+
+  private async queryNfts(where: object, query: PageQuery & { sort?: MarketSort }): Promise<Page<NFT>> {
+    const data = await this.client.request<{ marketplace_nfts: IndexerNFT[]; marketplace_nfts_aggregate: Aggregate }>(
+      MARKET_NFTS_QUERY,
+      {
+        where: { marketplace_address: { _eq: this.marketplaceAddr }, ...where },
+        orderBy: query.sort ? [orderBys[query.sort], { id: "asc" }] : [{ id: "asc" }],
+        limit: query.limit,
+        offset: query.offset,
+      }
+    );
+    return toPage(data.marketplace_nfts.map(toNft), data.marketplace_nfts_aggregate, query);
+  }
+
+  getMarketNfts(query: MarketQuery): Promise<Page<NFT>> {
+    const where: { [key: string]: object } = {};
+    if (query.rarity !== undefined) where.rarity = { _eq: query.rarity };
+    if (query.minPrice !== undefined || query.maxPrice !== undefined) {
+      where.price = {
+        ...(query.minPrice !== undefined && { _gte: query.minPrice.toString() }),
+        ...(query.maxPrice !== undefined && { _lte: query.maxPrice.toString() }),
+      };
+    }
+    if (query.listedAfter !== undefined || query.listedBefore !== undefined) {
+      where.listed_at = {
+        ...(query.listedAfter !== undefined && { _gte: Math.floor(query.listedAfter / 1000) }),
+        ...(query.listedBefore !== undefined && { _lte: Math.floor(query.listedBefore / 1000) }),
+      };
+    }
+    if (query.search) {
+      const pattern = `%${escapeLikePattern(query.search)}%`;
+      where._or = [{ name: { _ilike: pattern } }, { description: { _ilike: pattern } }];
+    }
+    return this.queryNfts(where, query);
+  }
+
+  getOwnerNfts(owner: string, query: PageQuery): Promise<Page<NFT>> {
+    return this.queryNfts({ owner: { _eq: owner } }, query);
+  }
+
+  getOwnerListings(owner: string, query: PageQuery): Promise<Page<NFT>> {
+    return this.queryNfts({ owner: { _eq: owner }, for_sale: { _eq: true } }, query);
+  }
+
+  async getAuctions(query: AuctionQuery): Promise<Page<Auction>> {
+    const where: { [key: string]: object } = {
+      marketplace_address: { _eq: this.marketplaceAddr },
+      settled: { _eq: false },
+    };
+    if (query.endsAfter !== undefined || query.endsBefore !== undefined) {
+      where.end_time = {
+        ...(query.endsAfter !== undefined && { _gt: query.endsAfter }),
+        ...(query.endsBefore !== undefined && { _lte: query.endsBefore }),
+      };
+    }
+    const data = await this.client.request<{
+      marketplace_auctions: IndexerAuction[];
+      marketplace_auctions_aggregate: Aggregate;
+    }>(AUCTIONS_QUERY, {
+      where,
+      orderBy: query.sort ? [auctionOrderBys[query.sort], { id: "asc" }] : [{ end_time: "asc" }, { id: "asc" }],
+      limit: query.limit,
+      offset: query.offset,
+    });
+    return toPage(data.marketplace_auctions.map(toAuction), data.marketplace_auctions_aggregate, query);
+  }
+
+  async getCollections(): Promise<CollectionSummary[]> {
+    const data = await this.client.request<{ marketplace_collections: IndexerCollection[] }>(COLLECTIONS_QUERY, {
+      marketplaceAddr: this.marketplaceAddr,
+    });
+    return data.marketplace_collections.map(toCollectionSummary);
+  }
+
+  getCollectionNfts(collectionId: number, query: CollectionNftsQuery): Promise<Page<NFT>> {
+    return this.queryNfts(
+      { collection_id: { _eq: collectionId }, ...(query.listedOnly && { for_sale: { _eq: true } }) },
+      query
+    );
+  }
+
+  async getAccountActivity(address: string, query: PageQuery): Promise<Page<PriceRecord>> {
+    const where = {
+      marketplace_address: { _eq: this.marketplaceAddr },
+      _or: [{ seller: { _eq: address } }, { buyer: { _eq: address } }],
+    };
+    const data = await this.client.request<{ marketplace_sales: IndexerSale[]; marketplace_sales_aggregate: Aggregate }>(
+      SALES_QUERY,
+      { where, limit: query.limit, offset: query.offset }
+    );
+    return toPage(data.marketplace_sales.map(toPriceRecord), data.marketplace_sales_aggregate, query);
+  }
+
+  async getFloors(): Promise<RarityFloors> {
+    const data = await this.client.request<{ [alias: string]: PriceAggregate }>(FLOORS_QUERY, {
+      marketplaceAddr: this.marketplaceAddr,
+    });
+    return Object.fromEntries(
+      RARITIES.map((rarity) => {
+        const price = data[`rarity_${rarity}`].aggregate.min.price;
+        return [rarity, price === null ? null : BigInt(price)];
+      })
+    );
+  }
+
+  async getLastSales(nftIds: number[]): Promise<Map<number, PriceRecord>> {
+    if (!nftIds.length) return new Map();
+    const data = await this.client.request<{ marketplace_sales: IndexerSale[] }>(LAST_SALES_QUERY, {
+      marketplaceAddr: this.marketplaceAddr,
+      nftIds,
+    });
+    return new Map(data.marketplace_sales.map((sale) => [Number(sale.nft_id), toPriceRecord(sale)]));
+  }
+
+  async getPriceHistory(nftId: number): Promise<PriceRecord[]> {
+    const data = await this.client.request<PriceRows>(PRICE_HISTORY_QUERY, { marketplaceAddr: this.marketplaceAddr, nftId });
+    return toPriceRecords(data);
+  }
+
+  async getMarketHistory(fromMs: number | null): Promise<PriceRecord[]> {
+    const data = await this.client.request<PriceRows>(MARKET_HISTORY_QUERY, {
+      marketplaceAddr: this.marketplaceAddr,
+      from: fromMs === null ? 0 : Math.floor(fromMs / 1000),
+    });
+    return toPriceRecords(data);
+  }
+}
@@ -0,0 +1,560 @@
+import { AptosClient, HexString, TxnBuilderTypes, Types } from "aptos";
+import { BytesLike, decodeString, encodeString } from "../utils/codec";
+import { Octas, toOctasString } from "../utils/amount";
+import { sameAddress } from "../utils/address";
+
+export type NFT = {
+  id: number;
+  owner: string;
+  name: string;
+  description: string;
+  uri: string;
+  price: string; // In octas
+  for_sale: boolean;
+  rarity: number;
+  listed_at: number | null; // Unix ms, null when unknown
+};
+
+export interface Auction {
+  id: number;
+  nftId: number;
+  seller: string;
+  startingPrice: string; // In octas
+  currentBid: string; // In octas
+  highestBidder: string;
+  endTime: number; // Unix seconds
+  nftDetails: {
+    name: string;
+    description: string;
+    uri: string;
+    rarity: number;
+  };
+}
+
+// An offer to buy an NFT, listed or not. Escrowed offers hold the amount in
+// the marketplace until they are accepted, rejected or cancelled; the others
+// are only paid if the offerer still has the funds when the owner accepts.
+export interface Offer {
+  id: number;
+  nftId: number;
+  offerer: string;
+  owner: string; // The NFT's current owner
+  amount: string; // In octas
+  counterAmount: string | null; // In octas, set once the owner counters
+  expiresAt: number; // Unix seconds
+  escrowed: boolean;
+  nftDetails: {
+    name: string;
+    uri: string;
+    rarity: number;
+  };
+}
+
+export type MintedNFT = Pick<NFT, "id" | "name" | "description" | "uri" | "rarity">;
+
+// The data of the module's FusionEvent, u64s as decimal strings. Both the
+// fusion result and the event poller read fusions through this shape.
+export interface FusionEventData {
+  owner: string;
+  nft_id_1: string;
+  nft_id_2: string;
+  new_nft_id: string;
+}
+
+export interface MintNFTArgs {
+  name: string;
+  description: string;
+  uri: string;
+  rarity: number;
+  // Name of the minter's collection to add the NFT to, created if it doesn't exist yet.
+  collection?: string;
+}
+
+export interface Collection {
+  id: number;
+  name: string;
+  creator: string;
+  nftIds: number[];
+}
+
+export interface SimulationResult {
+  success: boolean;
+  vmStatus: string;
+  gasUsed: bigint;
+  gasUnitPrice: bigint;
+  gasFee: bigint; // In octas
+}
+
+// Anything that can sign and submit an entry function payload: the wallet
+// adapter in the app, or an AptosAccount in a script.
+export type TransactionSigner = (payload: Types.TransactionPayload) => Promise<{ hash: string }>;
+
+// The contract stores listing times in Unix seconds, 0 when it has none; NFTs
+// carry them in ms whichever source they come from.
+export const listedAtMs = (seconds: number | string | null | undefined): number | null =>
+  seconds ? Number(seconds) * 1000 : null;
+
+// Transactions looked up at once when timestamping several versions.
+const TIMESTAMP_LOOKUPS = 6;
+
+// Struct tags carry their address in whatever form the node prints it.
+const sameStructType = (a: string, b: string) => {
+  const [addressA, ...nameA] = a.split("::");
+  const [addressB, ...nameB] = b.split("::");
+  return sameAddress(addressA, addressB) && nameA.join("::") === nameB.join("::");
+};
+
+class MarketplaceClient {
+  readonly client: AptosClient;
+  readonly marketplaceAddr: string;
+  // Committed transactions never change, so their timestamps are kept.
+  private versionTimestamps = new Map<string, number>();
+  // Settled auctions, from `auction_settled_events`, and the sequence number
+  // to read that handle from next. Settlements are final, so only new ones
+  // are read on each call.
+  private settledAuctionIds = new Set<number>();
+  private settledEventsStart = BigInt(0);
+  // Whether the resource has that handle at all, once it's been checked.
+  private hasSettledEvents: boolean | null = null;
+
+  constructor(client: AptosClient, marketplaceAddr: string) {
+    this.client = client;
+    this.marketplaceAddr = marketplaceAddr;
+  }
+
+  private fn(name: string): Types.EntryFunctionId {
+    return `${this.marketplaceAddr}::NFTMarketplace::${name}`;
+  }
+
+  private entryPayload(name: string, args: any[]): Types.TransactionPayload {
+    return {
+      type: "entry_function_payload",
+      function: this.fn(name),
+      type_arguments: [],
+      arguments: args,
+    };
+  }
+
+  private async view(name: string, args: any[]): Promise<Types.MoveValue[]> {
+    return this.client.view({
+      function: this.fn(name),
+      type_arguments: [],
+      arguments: args,
+    });
+  }
+
+  private async submit(signer: TransactionSigner, payload: Types.TransactionPayload): Promise<Types.Transaction> {
+    const response = await signer(payload);
+    // Throws FailedTransactionError (with the committed transaction) on a Move abort.
+    return this.client.waitForTransactionWithResult(response.hash, { checkSuccess: true });
+  }
+
+  // Entry function payloads
+
+  mintNftPayload({ name, description, uri, rarity, collection }: MintNFTArgs): Types.TransactionPayload {
+    const args = [encodeString(name), encodeString(description), encodeString(uri), rarity];
+    return collection
+      ? this.entryPayload("mint_nft_in_collection", [...args, encodeString(collection)])
+      : this.entryPayload("mint_nft", args);
+  }
+
+  purchaseNftPayload(nftId: number, priceOctas: Octas): Types.TransactionPayload {
+    return this.entryPayload("purchase_nft", [this.marketplaceAddr, nftId.toString(), toOctasString(priceOctas)]);
+  }
+
+  listForSalePayload(nftId: number, priceOctas: Octas): Types.TransactionPayload {
+    return this.entryPayload("list_for_sale", [this.marketplaceAddr, nftId.toString(), toOctasString(priceOctas)]);
+  }
+
+  // Takes a listed NFT off the market; it stays with its owner.
+  cancelListingPayload(nftId: number): Types.TransactionPayload {
+    return this.entryPayload("cancel_listing", [this.marketplaceAddr, nftId.toString()]);
+  }
+
+  updatePricePayload(nftId: number, priceOctas: Octas): Types.TransactionPayload {
+    return this.entryPayload("update_price", [this.marketplaceAddr, nftId.toString(), toOctasString(priceOctas)]);
+  }
+
+  createAuctionPayload(nftId: number, startingPriceOctas: Octas, endTimeUnix: number): Types.TransactionPayload {
+    return this.entryPayload("create_auction", [
+      this.marketplaceAddr,
+      nftId.toString(),
+      toOctasString(startingPriceOctas),
+      endTimeUnix.toString(),
+    ]);
+  }
+
+  // Only allowed before the first bid; the NFT goes back to the seller.
+  cancelAuctionPayload(auctionId: number): Types.TransactionPayload {
+    return this.entryPayload("cancel_auction", [this.marketplaceAddr, auctionId.toString()]);
+  }
+
+  placeBidPayload(auctionId: number, bidOctas: Octas): Types.TransactionPayload {
+    return this.entryPayload("place_bid", [this.marketplaceAddr, auctionId.toString(), toOctasString(bidOctas)]);
+  }
+
+  makeOfferPayload(nftId: number, amountOctas: Octas, expiresAtUnix: number, escrow: boolean): Types.TransactionPayload {
+    return this.entryPayload("make_offer", [
+      this.marketplaceAddr,
+      nftId.toString(),
+      toOctasString(amountOctas),
+      expiresAtUnix.toString(),
+      escrow,
+    ]);
+  }
+
+  acceptOfferPayload(offerId: number): Types.TransactionPayload {
+    return this.entryPayload("accept_offer", [this.marketplaceAddr, offerId.toString()]);
+  }
+
+  // Rejecting or cancelling an escrowed offer refunds the offerer.
+  rejectOfferPayload(offerId: number): Types.TransactionPayload {
+    return this.entryPayload("reject_offer", [this.marketplaceAddr, offerId.toString()]);
+  }
+
+  cancelOfferPayload(offerId: number): Types.TransactionPayload {
+    return this.entryPayload("cancel_offer", [this.marketplaceAddr, offerId.toString()]);
+  }
+
+  counterOfferPayload(offerId: number, amountOctas: Octas): Types.TransactionPayload {
+    return this.entryPayload("counter_offer", [this.marketplaceAddr, offerId.toString(), toOctasString(amountOctas)]);
+  }
+
+  // The offerer pays the countered amount (topping up any escrow), which must
+  // match `amountOctas` so a changed counter can't be accepted unseen.
+  acceptCounterOfferPayload(offerId: number, amountOctas: Octas): Types.TransactionPayload {
+    return this.entryPayload("accept_counter_offer", [this.marketplaceAddr, offerId.toString(), toOctasString(amountOctas)]);
+  }
+
+  // Settles an ended auction: the NFT goes to the highest bidder and the bid to
+  // the seller, or the NFT back to the seller if nobody bid. Only the seller or
+  // the highest bidder can call it.
+  finalizeAuctionPayload(auctionId: number): Types.TransactionPayload {
+    return this.entryPayload("finalize_auction", [this.marketplaceAddr, auctionId.toString()]);
+  }
+
+  fuseNftsPayload(firstNftId: number, secondNftId: number): Types.TransactionPayload {
+    return this.entryPayload("fuse_nfts", [this.marketplaceAddr, firstNftId.toString(), secondNftId.toString()]);
+  }
+
+  // Entry functions
+
+  mintNft(signer: TransactionSigner, args: MintNFTArgs) {
+    return this.submit(signer, this.mintNftPayload(args));
+  }
+
+  purchaseNft(signer: TransactionSigner, nftId: number, priceOctas: Octas) {
+    return this.submit(signer, this.purchaseNftPayload(nftId, priceOctas));
+  }
+
+  listForSale(signer: TransactionSigner, nftId: number, priceOctas: Octas) {
+    return this.submit(signer, this.listForSalePayload(nftId, priceOctas));
+  }
+
+  cancelListing(signer: TransactionSigner, nftId: number) {
+    return this.submit(signer, this.cancelListingPayload(nftId));
+  }
+
+  updatePrice(signer: TransactionSigner, nftId: number, priceOctas: Octas) {
+    return this.submit(signer, this.updatePricePayload(nftId, priceOctas));
+  }
+
+  createAuction(signer: TransactionSigner, nftId: number, startingPriceOctas: Octas, endTimeUnix: number) {
+    return this.submit(signer, this.createAuctionPayload(nftId, startingPriceOctas, endTimeUnix));
+  }
+
+  cancelAuction(signer: TransactionSigner, auctionId: number) {
+    return this.submit(signer, this.cancelAuctionPayload(auctionId));
+  }
+
+  placeBid(signer: TransactionSigner, auctionId: number, bidOctas: Octas) {
+    return this.submit(signer, this.placeBidPayload(auctionId, bidOctas));
+  }
+
+  makeOffer(signer: TransactionSigner, nftId: number, amountOctas: Octas, expiresAtUnix: number, escrow: boolean) {
+    return this.submit(signer, this.makeOfferPayload(nftId, amountOctas, expiresAtUnix, escrow));
+  }
+
+  acceptOffer(signer: TransactionSigner, offerId: number) {
+    return this.submit(signer, this.acceptOfferPayload(offerId));
+  }
+
+  rejectOffer(signer: TransactionSigner, offerId: number) {
+    return this.submit(signer, this.rejectOfferPayload(offerId));
+  }
+
+  cancelOffer(signer: TransactionSigner, offerId: number) {
+    return this.submit(signer, this.cancelOfferPayload(offerId));
+  }
+
+  counterOffer(signer: TransactionSigner, offerId: number, amountOctas: Octas) {
+    return this.submit(signer, this.counterOfferPayload(offerId, amountOctas));
+  }
+
+  acceptCounterOffer(signer: TransactionSigner, offerId: number, amountOctas: Octas) {
+    return this.submit(signer, this.acceptCounterOfferPayload(offerId, amountOctas));
+  }
+
+  finalizeAuction(signer: TransactionSigner, auctionId: number) {
+    return this.submit(signer, this.finalizeAuctionPayload(auctionId));
+  }
+
+  fuseNfts(signer: TransactionSigner, firstNftId: number, secondNftId: number) {
+    return this.submit(signer, this.fuseNftsPayload(firstNftId, secondNftId));
+  }
+
+  // Simulation
+
+  // Dry-runs a payload as `sender` to predict its gas fee and whether it aborts.
+  // Only single Ed25519 keys are supported, which covers every wallet we ship.
+  async simulate(sender: { address: string; publicKey: string }, payload: Types.TransactionPayload): Promise<SimulationResult> {
+    const rawTxn = await this.client.generateTransaction(sender.address, payload as Types.EntryFunctionPayload);
+    const publicKey = new TxnBuilderTypes.Ed25519PublicKey(new HexString(sender.publicKey).toUint8Array());
+    const [result] = await this.client.simulateTransaction(publicKey, rawTxn, {
+      estimateGasUnitPrice: true,
+      estimateMaxGasAmount: true,
+      estimatePrioritizedGasUnitPrice: false,
+    });
+    const gasUsed = BigInt(result.gas_used);
+    const gasUnitPrice = BigInt(result.gas_unit_price);
+    return {
+      success: result.success,
+      vmStatus: result.vm_status,
+      gasUsed,
+      gasUnitPrice,
+      gasFee: gasUsed * gasUnitPrice,
+    };
+  }
+
+  // Events
+
+  // The id of the NFT minted by a successful `fuse_nfts` transaction, read from
+  // its FusionEvent rather than a follow-up view call that can race. Throws if
+  // the event or its id is missing: the other ids in it are the burned inputs.
+  getFusedNftId(txn: Types.Transaction): number {
+    const type = `${this.marketplaceAddr}::NFTMarketplace::FusionEvent`;
+    const event = "events" in txn ? txn.events.find((e) => sameStructType(e.type, type)) : undefined;
+    const id = (event?.data as FusionEventData | undefined)?.new_nft_id;
+    if (id === undefined) {
+      throw new Error("The fusion went through, but its FusionEvent didn't say which NFT was minted.");
+    }
+    return Number(id);
+  }
+
+  // Events are read from the handles on the Marketplace resource, by sequence number.
+
+  private get resourceType(): Types.MoveStructTag {
+    return `${this.marketplaceAddr}::NFTMarketplace::Marketplace`;
+  }
+
+  // The number of events emitted so far on each of `handles`. Handles the
+  // resource doesn't have are left out.
+  async getEventCounters(handles: string[]): Promise<{ [handle: string]: bigint }> {
+    const response = await this.client.getAccountResource(this.marketplaceAddr, this.resourceType);
+    const data = response.data as { [field: string]: { counter?: string } | undefined };
+    return Object.fromEntries(
+      handles.filter((handle) => data[handle]?.counter !== undefined).map((handle) => [handle, BigInt(data[handle]!.counter!)])
+    );
+  }
+
+  // The endpoint returns versioned events; the SDK's signature drops the version.
+  async getEvents(handle: string, start: bigint, limit: number): Promise<Types.VersionedEvent[]> {
+    const events = await this.client.getEventsByEventHandle(this.marketplaceAddr, this.resourceType, handle, { start, limit });
+    return events as Types.VersionedEvent[];
+  }
+
+  private async getSettledAuctionIds(): Promise<Set<number>> {
+    if (this.hasSettledEvents === null) {
+      const counters = await this.getEventCounters(["auction_settled_events"]);
+      this.hasSettledEvents = counters.auction_settled_events !== undefined;
+    }
+    if (!this.hasSettledEvents) return this.settledAuctionIds;
+
+    const pageSize = 100;
+    let page: Types.VersionedEvent[];
+    do {
+      page = await this.getEvents("auction_settled_events", this.settledEventsStart, pageSize);
+      page.forEach((event) => this.settledAuctionIds.add(Number(event.data.auction_id)));
+      if (page.length) {
+        const next = BigInt(page[page.length - 1].sequence_number) + BigInt(1);
+        if (next > this.settledEventsStart) this.settledEventsStart = next;
+      }
+    } while (page.length === pageSize);
+    return this.settledAuctionIds;
+  }
+
+  // The names of the entry and view functions the deployed module exposes.
+  // The contract isn't part of this repo, so features built on functions it
+  // may not define check for them here first.
+  async getModuleFunctions(): Promise<Set<string>> {
+    const module = await this.client.getAccountModule(this.marketplaceAddr, "NFTMarketplace");
+    return new Set((module.abi?.exposed_functions ?? []).map((fn) => fn.name));
+  }
+
+  // When the transaction at `version` committed, in Unix ms. Events only carry
+  // their version, so this is how their time is found.
+  async getVersionTimestamp(version: string): Promise<number> {
+    const cached = this.versionTimestamps.get(version);
+    if (cached !== undefined) return cached;
+    const txn = await this.client.getTransactionByVersion(BigInt(version));
+    const timestamp = "timestamp" in txn ? Number(BigInt(txn.timestamp) / BigInt(1000)) : 0;
+    this.versionTimestamps.set(version, timestamp);
+    return timestamp;
+  }
+
+  // The timestamps of `versions`, looked up a few at a time. A version whose
+  // lookup fails is left out, so its caller can show it as untimed.
+  async getVersionTimestamps(versions: string[]): Promise<Map<string, number>> {
+    const timestamps = new Map<string, number>();
+    const pending = Array.from(new Set(versions));
+    const worker = async () => {
+      for (let version = pending.shift(); version !== undefined; version = pending.shift()) {
+        try {
+          timestamps.set(version, await this.getVersionTimestamp(version));
+        } catch (error) {
+          console.warn(`Couldn't look up the time of version ${version}:`, error);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: TIMESTAMP_LOOKUPS }, worker));
+    return timestamps;
+  }
+
+  // View functions
+
+  async getAllNftsForOwner(owner: string, limit = 100, offset = 0): Promise<number[]> {
+    const response = await this.view("get_all_nfts_for_owner", [
+      this.marketplaceAddr,
+      owner,
+      limit.toString(),
+      offset.toString(),
+    ]);
+    const nftIds = (Array.isArray(response[0]) ? response[0] : response) as Types.MoveValue[];
+    return nftIds.map((id) => Number(id));
+  }
+
+  // Every NFT id `owner` holds, read a page at a time.
+  async getEveryNftForOwner(owner: string, pageSize = 100): Promise<number[]> {
+    const ids: number[] = [];
+    let page: number[];
+    do {
+      page = await this.getAllNftsForOwner(owner, pageSize, ids.length);
+      ids.push(...page);
+    } while (page.length === pageSize);
+    return ids;
+  }
+
+  async getNftDetails(nftId: number): Promise<NFT> {
+    const [id, owner, name, description, uri, price, forSale, rarity] = await this.view("get_nft_details", [
+      this.marketplaceAddr,
+      nftId.toString(),
+    ]);
+    return {
+      id: Number(id),
+      owner: owner as string,
+      name: decodeString(name as BytesLike),
+      description: decodeString(description as BytesLike),
+      uri: decodeString(uri as BytesLike),
+      price: String(price),
+      for_sale: Boolean(forSale),
+      rarity: Number(rarity),
+      listed_at: null,
+    };
+  }
+
+  // Open auctions. The resource keeps an auction after it's settled, with no
+  // flag saying so, so the settled ones are dropped by their settlement event.
+  async getAllAuctions(): Promise<Auction[]> {
+    const [response, settled] = await Promise.all([this.view("get_all_auctions", []), this.getSettledAuctionIds()]);
+    if (!Array.isArray(response[0])) return [];
+
+    return response[0].filter((auction: any) => !settled.has(Number(auction.id))).map((auction: any) => ({
+      id: Number(auction.id),
+      nftId: Number(auction.nft_id),
+      seller: auction.seller,
+      startingPrice: String(auction.starting_price),
+      currentBid: String(auction.current_bid),
+      highestBidder: auction.highest_bidder,
+      endTime: Number(auction.end_time),
+      nftDetails: {
+        name: decodeString(auction.nft_details.name),
+        description: decodeString(auction.nft_details.description),
+        uri: decodeString(auction.nft_details.uri),
+        rarity: Number(auction.nft_details.rarity),
+      },
+    }));
+  }
+
+  // Open offers, including expired ones that haven't been cleaned up yet.
+  async getAllOffers(): Promise<Offer[]> {
+    const response = await this.view("get_all_offers", [this.marketplaceAddr]);
+    if (!Array.isArray(response[0])) return [];
+
+    return response[0].map((offer: any) => ({
+      id: Number(offer.id),
+      nftId: Number(offer.nft_id),
+      offerer: offer.offerer,
+      owner: offer.owner,
+      amount: String(offer.amount),
+      // The contract uses 0 for "not countered".
+      counterAmount: BigInt(offer.counter_amount ?? 0) > BigInt(0) ? String(offer.counter_amount) : null,
+      expiresAt: Number(offer.expires_at),
+      escrowed: Boolean(offer.escrowed),
+      nftDetails: {
+        name: decodeString(offer.nft_details.name),
+        uri: decodeString(offer.nft_details.uri),
+        rarity: Number(offer.nft_details.rarity),
+      },
+    }));
+  }
+
+  async getAllCollections(): Promise<Collection[]> {
+    const response = await this.view("get_all_collections", [this.marketplaceAddr]);
+    if (!Array.isArray(response[0])) return [];
+
+    return response[0].map((collection: any) => ({
+      id: Number(collection.id),
+      name: decodeString(collection.name),
+      creator: collection.creator,
+      nftIds: (collection.nft_ids as Types.MoveValue[]).map((id) => Number(id)),
+    }));
+  }
+
+  async getLastMintedNft(owner: string): Promise<MintedNFT> {
+    const [id, name, description, uri, rarity] = await this.view("get_last_minted_nft", [this.marketplaceAddr, owner]);
+    return {
+      id: Number(id),
+      name: decodeString(name as BytesLike),
+      description: decodeString(description as BytesLike),
+      uri: decodeString(uri as BytesLike),
+      rarity: Number(rarity),
+    };
+  }
+
+  // Resources
+
+  async getAptBalance(owner: string): Promise<bigint> {
+    const resources = await this.client.getAccountResources(owner);
+    const coinStore = resources.find((r) => r.type === "0x1::coin::CoinStore<0x1::aptos_coin::AptosCoin>");
+    return coinStore ? BigInt((coinStore.data as any).coin.value || 0) : BigInt(0);
+  }
+
+  async getMarketplaceNfts(): Promise<NFT[]> {
+    const response = await this.client.getAccountResource(this.marketplaceAddr, this.resourceType);
+    const nftList = (response.data as { nfts: any[] }).nfts;
+
+    return nftList.map((nft) => ({
+      id: Number(nft.id),
+      owner: nft.owner,
+      name: decodeString(nft.name),
+      description: decodeString(nft.description),
+      uri: decodeString(nft.uri),
+      price: String(nft.price),
+      for_sale: Boolean(nft.for_sale),
+      rarity: Number(nft.rarity),
+      listed_at: listedAtMs(nft.listed_at),
+    }));
+  }
+}
+
+export default MarketplaceClient;
@@ -0,0 +1,76 @@
+import { ApiError, FailedTransactionError } from 'aptos';
+import { describeBidError, describeTransactionError, describeVmStatus, isInsufficientBalance } from './marketplaceErrors';
+
+test('maps the NFTMarketplace abort codes', () => {
+  expect(describeVmStatus('Move abort in 0xabc::NFTMarketplace: 0x190')).toBe(
+    'This NFT has already been sold or is no longer listed.'
+  );
+  expect(describeVmStatus('Move abort in 0xabc::NFTMarketplace: 101')).toBe('This NFT is already listed for sale.');
+});
+
+test('reports unknown NFTMarketplace aborts by code', () => {
+  expect(describeVmStatus('Move abort in 0xabc::NFTMarketplace: 0x9')).toBe(
+    'The transaction was aborted by NFTMarketplace with code 9.'
+  );
+});
+
+test('maps framework balance aborts', () => {
+  expect(describeVmStatus('Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins')).toBe(
+    'Your APT balance is too low for this transaction.'
+  );
+});
+
+test('falls back to the module and code for unknown aborts', () => {
+  expect(describeVmStatus('Move abort in 0x1::object: ENOT_OWNER(0x50004): ')).toBe(
+    'The transaction was aborted by object (ENOT_OWNER) with code 327684.'
+  );
+});
+
+test('describes failed transactions by their vm_status', () => {
+  const error = new FailedTransactionError('failed', {
+    type: 'user_transaction',
+    vm_status: 'Move abort in 0xabc::NFTMarketplace: 0x191',
+  } as any);
+  expect(describeTransactionError(error)).toBe("The payment doesn't cover the current price. It may have been repriced.");
+});
+
+test('recognizes wallet rejections', () => {
+  expect(describeTransactionError({ code: 4001, message: 'User rejected the request.' })).toBe(
+    'You rejected the transaction in your wallet.'
+  );
+  expect(describeTransactionError('User has rejected the request')).toBe('You rejected the transaction in your wallet.');
+});
+
+test("doesn't take node errors naming cancel or reject functions for wallet rejections", () => {
+  const failed = new FailedTransactionError('failed', {
+    type: 'user_transaction',
+    vm_status: 'Move abort in 0xabc::NFTMarketplace: 0x190',
+    payload: { function: '0xabc::NFTMarketplace::cancel_listing' },
+  } as any);
+  expect(describeTransactionError(failed)).toBe('This NFT has already been sold or is no longer listed.');
+  expect(describeTransactionError(new ApiError(400, 'Function 0xabc::NFTMarketplace::reject_offer not found'))).toBe(
+    'Function 0xabc::NFTMarketplace::reject_offer not found'
+  );
+  expect(describeTransactionError('Simulation of cancel_auction failed')).toBe('Simulation of cancel_auction failed');
+});
+
+test('explains unknown aborts on a bid from the auction', () => {
+  const failed = new FailedTransactionError('failed', {
+    type: 'user_transaction',
+    vm_status: 'Move abort in 0xabc::NFTMarketplace: 0x3',
+  } as any);
+  expect(describeBidError(failed, { endTime: 100 }, 100 * 1000)).toBe('This auction has already ended.');
+  expect(describeBidError(failed, { endTime: 100 }, 99 * 1000)).toBe('Your bid is too low. Someone may have outbid you.');
+  expect(describeBidError('User has rejected the request', { endTime: 100 }, 0)).toBe(
+    'You rejected the transaction in your wallet.'
+  );
+});
+
+test('recognizes a balance too low for the purchase or its gas', () => {
+  const failed = (vm_status: string) => new FailedTransactionError('failed', { type: 'user_transaction', vm_status } as any);
+
+  expect(isInsufficientBalance(failed('Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins'))).toBe(true);
+  expect(isInsufficientBalance(new Error('INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE'))).toBe(true);
+  expect(isInsufficientBalance(failed('Move abort in 0xabc::NFTMarketplace: 0x191'))).toBe(false);
+  expect(isInsufficientBalance({ code: 4001, message: 'User rejected the request.' })).toBe(false);
+});
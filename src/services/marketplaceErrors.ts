@@ -0,0 +1,103 @@
+import { ApiError, FailedTransactionError } from "aptos";
+import { Auction } from "./marketplaceClient";
+import { MoveAbort, parseMoveAbort } from "../utils/vmStatus";
+
+// Abort codes of the NFTMarketplace module deployed at the testnet address in
+// config.ts. It declares no named error constants; these are the literal codes
+// its `list_for_sale` and `purchase_nft` assert with. Aborts from its other
+// entry functions aren't known here and are reported with their raw code.
+export const MARKETPLACE_ABORTS: { [code: number]: string } = {
+  100: "You are not the owner of this NFT.",
+  101: "This NFT is already listed for sale.",
+  400: "This NFT has already been sold or is no longer listed.",
+  401: "The payment doesn't cover the current price. It may have been repriced.",
+};
+
+// Aborts from framework modules that marketplace transactions commonly hit.
+const FRAMEWORK_ABORTS: { [name: string]: string } = {
+  EINSUFFICIENT_BALANCE: "Your APT balance is too low for this transaction.",
+  ECOIN_STORE_NOT_PUBLISHED: "Your account can't hold APT yet. Fund it first.",
+};
+
+// `place_bid`'s abort codes aren't among the known ones, so an NFTMarketplace
+// abort on a bid is explained from the auction instead, see describeBidError.
+export const BID_ABORTS = {
+  auctionEnded: "This auction has already ended.",
+  bidTooLow: "Your bid is too low. Someone may have outbid you.",
+};
+
+// The wallet adapter throws this exact message when the user declines in an
+// AIP-62 wallet; older wallets reject with the EIP-1193 code 4001.
+const WALLET_REJECTION_MESSAGE = "User has rejected the request";
+
+export const describeMoveAbort = (abort: MoveAbort): string => {
+  if (abort.module === "NFTMarketplace" && MARKETPLACE_ABORTS[abort.code]) {
+    return MARKETPLACE_ABORTS[abort.code];
+  }
+  if (abort.name && FRAMEWORK_ABORTS[abort.name]) {
+    return FRAMEWORK_ABORTS[abort.name];
+  }
+  return `The transaction was aborted by ${abort.module}${abort.name ? ` (${abort.name})` : ""} with code ${abort.code}.`;
+};
+
+export const describeVmStatus = (vmStatus: string): string => {
+  const abort = parseMoveAbort(vmStatus);
+  if (abort) return describeMoveAbort(abort);
+  if (/out of gas/i.test(vmStatus)) return "The transaction ran out of gas.";
+  if (/INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE/.test(vmStatus)) return "Your APT balance can't cover the gas fee.";
+  if (/SEQUENCE_NUMBER/.test(vmStatus)) return "Your wallet's sequence number is out of date. Please try again.";
+  return vmStatus;
+};
+
+// What the node or VM reported for `error`, when it came from a transaction
+// that reached them rather than from the wallet.
+const vmStatusOf = (error: unknown): string | null => {
+  if (error instanceof FailedTransactionError && "vm_status" in error.transaction) return error.transaction.vm_status;
+  if (error instanceof ApiError) return error.vmErrorCode ?? error.message;
+  return null;
+};
+
+// The adapter throws bare strings; the SDK and scripts throw Errors.
+const messageOf = (error: unknown): string | null => {
+  if (typeof error === "string") return error;
+  if (typeof error === "object" && error !== null && "message" in error && typeof error.message === "string") {
+    return error.message;
+  }
+  return null;
+};
+
+export const isUserRejection = (error: unknown): boolean => {
+  if (vmStatusOf(error) !== null) return false;
+  if (typeof error === "string") return error === WALLET_REJECTION_MESSAGE;
+  return typeof error === "object" && error !== null && "code" in error && error.code === 4001;
+};
+
+// Whether `error` says the account ran out of APT, for the purchase itself
+// (EINSUFFICIENT_BALANCE) or for its gas (INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE).
+export const isInsufficientBalance = (error: unknown): boolean =>
+  /INSUFFICIENT_BALANCE/.test(vmStatusOf(error) ?? messageOf(error) ?? "");
+
+// Turns anything a wallet, the SDK or the node throws into a sentence for the UI.
+// What the node reported is classified first, so a VM error that merely names
+// an entry function like `cancel_listing` isn't taken for a wallet rejection.
+export const describeTransactionError = (error: unknown): string => {
+  const vmStatus = vmStatusOf(error);
+  if (vmStatus !== null) return describeVmStatus(vmStatus);
+  if (isUserRejection(error)) {
+    return "You rejected the transaction in your wallet.";
+  }
+  const message = messageOf(error);
+  if (message) return describeVmStatus(message);
+  return "Something went wrong. Please try again.";
+};
+
+// describeTransactionError for a bid on `auction`. An NFTMarketplace abort
+// without a known code means the auction ended if it is past its end time by
+// `nowMs`, and otherwise that the bid no longer beats the current one.
+export const describeBidError = (error: unknown, auction: Pick<Auction, "endTime">, nowMs: number): string => {
+  const abort = parseMoveAbort(vmStatusOf(error) ?? messageOf(error));
+  if (abort?.module === "NFTMarketplace" && !MARKETPLACE_ABORTS[abort.code]) {
+    return nowMs >= auction.endTime * 1000 ? BID_ABORTS.auctionEnded : BID_ABORTS.bidTooLow;
+  }
+  return describeTransactionError(error);
+};
@@ -0,0 +1,54 @@
+import { Types } from 'aptos';
+import MarketplaceClient from './marketplaceClient';
+import { MarketplaceEvent, MarketplaceEventPoller, parseMarketplaceEvent } from './marketplaceEvents';
+
+const event = (sequence: number, version: number, data: any): Types.VersionedEvent =>
+  ({ guid: { creation_number: '0', account_address: '0xmkt' }, sequence_number: String(sequence), version: String(version), type: 'x', data } as any);
+
+test('parses bids with octa amounts', () => {
+  expect(
+    parseMarketplaceEvent('bid', event(4, 10, { auction_id: '2', nft_id: '7', bidder: '0xb', amount: '150000000' }))
+  ).toEqual({ sequenceNumber: BigInt(4), version: '10', kind: 'bid', auctionId: 2, nftId: 7, bidder: '0xb', amount: '150000000' });
+});
+
+test('treats @0x0 as no winner', () => {
+  const settled = parseMarketplaceEvent(
+    'auctionSettled',
+    event(0, 1, { auction_id: '1', nft_id: '3', seller: '0xa', winner: '0x0', amount: '0' })
+  );
+  expect(settled).toMatchObject({ kind: 'auctionSettled', winner: null });
+});
+
+test('starts at the current counters and dispatches new events in chain order', async () => {
+  const events: { [handle: string]: Types.VersionedEvent[] } = {
+    listing_events: [event(5, 30, { nft_id: '9', seller: '0xa', price: '1' })],
+    bid_events: [event(2, 20, { auction_id: '1', nft_id: '3', bidder: '0xb', amount: '2' })],
+  };
+  const marketplace = {
+    getEventCounters: jest.fn().mockResolvedValue({ listing_events: BigInt(5), bid_events: BigInt(2) }),
+    getEvents: jest.fn(async (handle: string, start: bigint) =>
+      (events[handle] ?? []).filter((e) => BigInt(e.sequence_number) >= start)
+    ),
+  };
+  const poller = new MarketplaceEventPoller(marketplace as unknown as MarketplaceClient);
+  const received: MarketplaceEvent[] = [];
+  // Fake timers keep the background loop from running; the test polls by hand.
+  jest.useFakeTimers();
+  const unsubscribe = poller.subscribe((e) => received.push(e));
+
+  await poller.poll();
+  expect(marketplace.getEvents).not.toHaveBeenCalled();
+  expect(poller.missingKinds).toContain('fused');
+
+  await poller.poll();
+  expect(received.map((e) => e.kind)).toEqual(['bid', 'listed']);
+  expect(marketplace.getEvents).toHaveBeenCalledWith('listing_events', BigInt(5), 25);
+
+  await poller.poll();
+  expect(received).toHaveLength(2);
+  // Handles the resource doesn't have are never read.
+  expect(marketplace.getEvents.mock.calls.map(([handle]) => handle)).not.toContain('fusion_events');
+
+  unsubscribe();
+  jest.useRealTimers();
+});
@@ -0,0 +1,206 @@
+import { Types } from "aptos";
+import MarketplaceClient, { FusionEventData } from "./marketplaceClient";
+
+// Event handle fields we expect on the Marketplace resource, keyed by the kind
+// of event they carry. The contract isn't part of this repo, so these are
+// checked against the deployed resource: kinds whose handle it doesn't have are
+// skipped rather than failing the reads.
+export const EVENT_HANDLES = {
+  listed: "listing_events",
+  purchased: "purchase_events",
+  bid: "bid_events",
+  auctionCreated: "auction_created_events",
+  auctionSettled: "auction_settled_events",
+  fused: "fusion_events",
+} as const;
+
+export type MarketplaceEventKind = keyof typeof EVENT_HANDLES;
+
+interface EventBase {
+  sequenceNumber: bigint;
+  version?: string;
+}
+
+// Amounts are octas, as decimal strings.
+export type MarketplaceEvent = EventBase &
+  (
+    | { kind: "listed"; nftId: number; seller: string; price: string }
+    | { kind: "purchased"; nftId: number; seller: string; buyer: string; price: string }
+    | { kind: "bid"; auctionId: number; nftId: number; bidder: string; amount: string }
+    | { kind: "auctionCreated"; auctionId: number; nftId: number; seller: string; startingPrice: string; endTime: number }
+    | { kind: "auctionSettled"; auctionId: number; nftId: number; seller: string; winner: string | null; amount: string }
+    | { kind: "fused"; owner: string; burnedIds: [number, number]; newNftId: number }
+  );
+
+export type MarketplaceEventListener = (event: MarketplaceEvent) => void;
+
+// The contract uses @0x0 for "no winner" when an auction ends without bids.
+const optionalAddress = (address: string | undefined) => (!address || /^0x0*$/.test(address) ? null : address);
+
+export const parseMarketplaceEvent = (kind: MarketplaceEventKind, event: Types.VersionedEvent): MarketplaceEvent => {
+  const data = event.data;
+  const base = { sequenceNumber: BigInt(event.sequence_number), version: event.version };
+  switch (kind) {
+    case "listed":
+      return { ...base, kind, nftId: Number(data.nft_id), seller: data.seller, price: String(data.price) };
+    case "purchased":
+      return {
+        ...base,
+        kind,
+        nftId: Number(data.nft_id),
+        seller: data.seller,
+        buyer: data.buyer,
+        price: String(data.price),
+      };
+    case "bid":
+      return {
+        ...base,
+        kind,
+        auctionId: Number(data.auction_id),
+        nftId: Number(data.nft_id),
+        bidder: data.bidder,
+        amount: String(data.amount),
+      };
+    case "auctionCreated":
+      return {
+        ...base,
+        kind,
+        auctionId: Number(data.auction_id),
+        nftId: Number(data.nft_id),
+        seller: data.seller,
+        startingPrice: String(data.starting_price),
+        endTime: Number(data.end_time),
+      };
+    case "auctionSettled":
+      return {
+        ...base,
+        kind,
+        auctionId: Number(data.auction_id),
+        nftId: Number(data.nft_id),
+        seller: data.seller,
+        winner: optionalAddress(data.winner),
+        amount: String(data.amount),
+      };
+    case "fused": {
+      const fusion = data as FusionEventData;
+      return {
+        ...base,
+        kind,
+        owner: fusion.owner,
+        burnedIds: [Number(fusion.nft_id_1), Number(fusion.nft_id_2)],
+        newNftId: Number(fusion.new_nft_id),
+      };
+    }
+  }
+};
+
+const POLL_INTERVAL_MS = 5000;
+const PAGE_SIZE = 25;
+
+const compareVersions = (a: MarketplaceEvent, b: MarketplaceEvent) => {
+  const first = BigInt(a.version ?? 0);
+  const second = BigInt(b.version ?? 0);
+  return first < second ? -1 : first > second ? 1 : 0;
+};
+
+// Reads every event of one kind from sequence number `start`, the start of its
+// handle by default, for views that need history rather than live updates.
+export const fetchAllEvents = async (marketplace: MarketplaceClient, kind: MarketplaceEventKind, start = BigInt(0)) => {
+  const events: MarketplaceEvent[] = [];
+  const counters = await marketplace.getEventCounters([EVENT_HANDLES[kind]]);
+  if (counters[EVENT_HANDLES[kind]] === undefined) return events;
+  let page: Types.VersionedEvent[];
+  do {
+    page = await marketplace.getEvents(EVENT_HANDLES[kind], start + BigInt(events.length), PAGE_SIZE);
+    page.forEach((event) => events.push(parseMarketplaceEvent(kind, event)));
+  } while (page.length === PAGE_SIZE);
+  return events;
+};
+
+// Polls every marketplace event handle for events past the last sequence
+// number seen. It only runs while someone is subscribed, and starts from the
+// current counters, so subscribers see what happens from then on.
+export class MarketplaceEventPoller {
+  readonly marketplace: MarketplaceClient;
+  readonly intervalMs: number;
+  private listeners = new Set<MarketplaceEventListener>();
+  private cursors: { [kind in MarketplaceEventKind]?: bigint } = {};
+  // The kinds whose handle the resource has, once the counters are read.
+  private kinds: MarketplaceEventKind[] | null = null;
+  // The kinds whose handle the resource lacks (e.g. an older deployment).
+  // They're recorded on the first poll and never read.
+  missingKinds: MarketplaceEventKind[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped on every start/stop so a poll finishing after a restart doesn't
+  // schedule a second loop.
+  private generation = 0;
+
+  constructor(marketplace: MarketplaceClient, intervalMs = POLL_INTERVAL_MS) {
+    this.marketplace = marketplace;
+    this.intervalMs = intervalMs;
+  }
+
+  subscribe(listener: MarketplaceEventListener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.start();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  private start() {
+    this.schedule(++this.generation, 0);
+  }
+
+  private stop() {
+    this.generation++;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private schedule(generation: number, delay: number) {
+    this.timer = setTimeout(async () => {
+      await this.poll();
+      if (generation === this.generation) this.schedule(generation, this.intervalMs);
+    }, delay);
+  }
+
+  // Fetches and dispatches everything new on every handle. Exposed for tests.
+  async poll() {
+    try {
+      if (!this.kinds) {
+        const all = Object.keys(EVENT_HANDLES) as MarketplaceEventKind[];
+        const counters = await this.marketplace.getEventCounters(all.map((kind) => EVENT_HANDLES[kind]));
+        this.kinds = all.filter((kind) => counters[EVENT_HANDLES[kind]] !== undefined);
+        this.kinds.forEach((kind) => (this.cursors[kind] = counters[EVENT_HANDLES[kind]]));
+        this.missingKinds = all.filter((kind) => counters[EVENT_HANDLES[kind]] === undefined);
+        return;
+      }
+      const kinds = this.kinds;
+
+      // Cursors only move once every handle has been read, so a failed poll is
+      // retried in full rather than dropping events.
+      const batches = await Promise.all(kinds.map((kind) => this.fetchNew(kind)));
+      batches.forEach(({ kind, next }) => (this.cursors[kind] = next));
+
+      // Handles are read separately; put their events back in chain order.
+      const events = batches.flatMap(({ events }) => events).sort(compareVersions);
+      events.forEach((event) => this.listeners.forEach((listener) => listener(event)));
+    } catch (error) {
+      console.error("Error polling marketplace events:", error);
+    }
+  }
+
+  private async fetchNew(kind: MarketplaceEventKind) {
+    const events: MarketplaceEvent[] = [];
+    let next = this.cursors[kind]!;
+    let page: Types.VersionedEvent[];
+    do {
+      page = await this.marketplace.getEvents(EVENT_HANDLES[kind], next, PAGE_SIZE);
+      page.forEach((event) => events.push(parseMarketplaceEvent(kind, event)));
+      if (page.length) next = BigInt(page[page.length - 1].sequence_number) + BigInt(1);
+    } while (page.length === PAGE_SIZE);
+    return { kind, events, next };
+  }
+}
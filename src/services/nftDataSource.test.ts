@@ -0,0 +1,92 @@
+import MarketplaceClient, { Auction, NFT } from './marketplaceClient';
+import { ViewNftDataSource, applyAuctionQuery, applyMarketQuery, pageOf, paginationTotal } from './nftDataSource';
+
+const nft = (id: number, price: string, rarity = 1, listed_at: number | null = id * 1000): NFT => ({
+  id,
+  owner: '0x1',
+  name: `NFT ${id}`,
+  description: id % 2 ? 'odd' : 'even',
+  uri: '',
+  price,
+  for_sale: true,
+  rarity,
+  listed_at,
+});
+
+const nfts = [nft(1, '300000000', 1), nft(2, '100000000', 3), nft(3, '200000000', 4)];
+
+test('pages in memory', () => {
+  expect(pageOf([1, 2, 3, 4, 5], { offset: 2, limit: 2 })).toEqual({ items: [3, 4], total: 5, hasMore: true });
+  expect(pageOf([1, 2, 3, 4, 5], { offset: 4, limit: 2 })).toEqual({ items: [5], total: 5, hasMore: false });
+});
+
+test('filters by price range in octas', () => {
+  const ids = applyMarketQuery(nfts, { offset: 0, limit: 10, minPrice: BigInt(150000000), maxPrice: BigInt(300000000) }).map(
+    (n) => n.id
+  );
+  expect(ids).toEqual([1, 3]);
+});
+
+test('filters by rarity and search, then sorts', () => {
+  expect(applyMarketQuery(nfts, { offset: 0, limit: 10, search: 'ODD', sort: 'price_asc' }).map((n) => n.id)).toEqual([3, 1]);
+  expect(applyMarketQuery(nfts, { offset: 0, limit: 10, rarity: 3 }).map((n) => n.id)).toEqual([2]);
+});
+
+test('sorts NFTs without a listing time last and leaves them out of date filters', () => {
+  const withUnlisted = [nft(4, '1', 1, null), ...nfts];
+  expect(applyMarketQuery(withUnlisted, { offset: 0, limit: 10, sort: 'date_desc' }).map((n) => n.id)).toEqual([3, 2, 1, 4]);
+  expect(applyMarketQuery(withUnlisted, { offset: 0, limit: 10, sort: 'date_asc' }).map((n) => n.id)).toEqual([1, 2, 3, 4]);
+  expect(applyMarketQuery(withUnlisted, { offset: 0, limit: 10, listedAfter: 0 })).toHaveLength(3);
+});
+
+test('estimates a pagination total when the source only knows about the next page', () => {
+  const query = { offset: 8, limit: 8 };
+  expect(paginationTotal({ items: new Array(8), total: null, hasMore: true }, query)).toBe(17);
+  expect(paginationTotal({ items: new Array(3), total: null, hasMore: false }, query)).toBe(11);
+  expect(paginationTotal({ items: [], total: 42, hasMore: true }, query)).toBe(42);
+});
+
+const auction = (id: number, endTime: number): Auction => ({
+  id,
+  nftId: id,
+  seller: '0x1',
+  startingPrice: '0',
+  currentBid: '0',
+  highestBidder: '0x0',
+  endTime,
+  nftDetails: { name: '', description: '', uri: '', rarity: 1 },
+});
+
+test('filters auctions ending in a window and sorts by end time', () => {
+  const auctions = [auction(1, 5000), auction(2, 1000), auction(3, 3000), auction(4, 9000)];
+  expect(applyAuctionQuery(auctions, { offset: 0, limit: 10, endsAfter: 1000, endsBefore: 5000, sort: 'ending_soon' }).map((a) => a.id)).toEqual([3, 1]);
+  expect(applyAuctionQuery(auctions, { offset: 0, limit: 10, sort: 'newest' }).map((a) => a.id)).toEqual([4, 3, 2, 1]);
+});
+
+test('leaves out auctions that have been settled, reading each settlement once', async () => {
+  const rawAuction = (id: number) => ({
+    id: String(id),
+    nft_id: String(id),
+    seller: '0xa',
+    starting_price: '1',
+    current_bid: '1',
+    highest_bidder: '0x0',
+    end_time: '100',
+    nft_details: { name: '0x', description: '0x', uri: '0x', rarity: '1' },
+  });
+  const settled = [{ sequence_number: '0', data: { auction_id: '2' } }];
+  const client = {
+    view: jest.fn().mockResolvedValue([[rawAuction(1), rawAuction(2)]]),
+    getAccountResource: jest.fn().mockResolvedValue({ data: { auction_settled_events: { counter: '1' } } }),
+    getEventsByEventHandle: jest.fn(async (_: string, __: string, ___: string, { start }: { start: bigint }) =>
+      settled.slice(Number(start))
+    ),
+  };
+  const source = new ViewNftDataSource(new MarketplaceClient(client as any, '0xmkt'));
+
+  expect((await source.getAuctions({ offset: 0, limit: 10 })).items.map((a) => a.id)).toEqual([1]);
+  settled.push({ sequence_number: '1', data: { auction_id: '1' } });
+  expect((await source.getAuctions({ offset: 0, limit: 10 })).items).toEqual([]);
+  expect(client.getEventsByEventHandle.mock.calls.map(([, , , { start }]) => start)).toEqual([BigInt(0), BigInt(1)]);
+  expect(client.getAccountResource).toHaveBeenCalledTimes(1);
+});
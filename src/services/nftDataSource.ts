@@ -0,0 +1,204 @@
+import MarketplaceClient, { Auction, NFT } from "./marketplaceClient";
+import { PriceRecord, PriceRecordLog, firstRecordSince, isAccountSale, lastSales, withTimestamps } from "./priceHistory";
+import { sameAddress } from "../utils/address";
+import { currentFloors } from "../utils/analytics";
+import { CollectionSummary, collectionNfts, summarizeCollection } from "../utils/collections";
+import { compareOctas } from "../utils/amount";
+
+export interface PageQuery {
+  offset: number;
+  limit: number;
+}
+
+export type MarketSort = "price_asc" | "price_desc" | "date_asc" | "date_desc" | "rarity_asc" | "rarity_desc";
+
+export interface MarketQuery extends PageQuery {
+  rarity?: number;
+  search?: string;
+  minPrice?: bigint; // In octas
+  maxPrice?: bigint; // In octas
+  listedAfter?: number; // Unix ms
+  listedBefore?: number; // Unix ms
+  sort?: MarketSort;
+}
+
+export type AuctionSort = "ending_soon" | "newest";
+
+export interface AuctionQuery extends PageQuery {
+  endsAfter?: number; // Unix seconds
+  endsBefore?: number; // Unix seconds
+  sort?: AuctionSort;
+}
+
+export interface CollectionNftsQuery extends PageQuery {
+  listedOnly?: boolean;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Null when the source can only tell whether another page exists.
+  total: number | null;
+  hasMore: boolean;
+}
+
+// The cheapest listing of each rarity, in octas. Null when none is listed.
+export type RarityFloors = { [rarity: number]: bigint | null };
+
+export interface NftDataSource {
+  getMarketNfts(query: MarketQuery): Promise<Page<NFT>>;
+  getOwnerNfts(owner: string, query: PageQuery): Promise<Page<NFT>>;
+  // The NFTs `owner` has up for sale at a fixed price.
+  getOwnerListings(owner: string, query: PageQuery): Promise<Page<NFT>>;
+  getAuctions(query: AuctionQuery): Promise<Page<Auction>>;
+  // Every collection with its stats. Empty when the module has no collections.
+  getCollections(): Promise<CollectionSummary[]>;
+  getCollectionNfts(collectionId: number, query: CollectionNftsQuery): Promise<Page<NFT>>;
+  // The sales `address` bought or sold in, newest first.
+  getAccountActivity(address: string, query: PageQuery): Promise<Page<PriceRecord>>;
+  getFloors(): Promise<RarityFloors>;
+  // The latest sale of each of `nftIds` that has sold.
+  getLastSales(nftIds: number[]): Promise<Map<number, PriceRecord>>;
+  // Every listing and sale of `nftId`, oldest first, with the time each happened.
+  getPriceHistory(nftId: number): Promise<PriceRecord[]>;
+  // Every listing and sale since `fromMs`, or ever when null, oldest first.
+  // Records whose time can't be read are left out.
+  getMarketHistory(fromMs: number | null): Promise<PriceRecord[]>;
+}
+
+// A total for antd's Pagination: exact when known, otherwise just enough to
+// enable the "next" button while more pages exist.
+export const paginationTotal = (page: Page<unknown>, query: PageQuery) =>
+  page.total ?? query.offset + page.items.length + (page.hasMore ? 1 : 0);
+
+export const pageOf = <T>(items: T[], query: PageQuery): Page<T> => ({
+  items: items.slice(query.offset, query.offset + query.limit),
+  total: items.length,
+  hasMore: query.offset + query.limit < items.length,
+});
+
+// NFTs without a listing time go last in either direction.
+const byListedAt = (direction: 1 | -1) => (a: NFT, b: NFT) => {
+  if (a.listed_at === null) return b.listed_at === null ? 0 : 1;
+  if (b.listed_at === null) return -1;
+  return direction * (a.listed_at - b.listed_at);
+};
+
+const sorters: { [key in MarketSort]: (a: NFT, b: NFT) => number } = {
+  price_asc: (a, b) => compareOctas(a.price, b.price),
+  price_desc: (a, b) => compareOctas(b.price, a.price),
+  date_asc: byListedAt(1),
+  date_desc: byListedAt(-1),
+  rarity_asc: (a, b) => a.rarity - b.rarity,
+  rarity_desc: (a, b) => b.rarity - a.rarity,
+};
+
+// Filters and sorts in memory, for sources that can't do it server-side.
+export const applyMarketQuery = (nfts: NFT[], query: MarketQuery): NFT[] => {
+  const search = query.search?.toLowerCase();
+  const filtered = nfts.filter((nft) => {
+    const price = BigInt(nft.price);
+    return (
+      (query.rarity === undefined || nft.rarity === query.rarity) &&
+      (query.minPrice === undefined || price >= query.minPrice) &&
+      (query.maxPrice === undefined || price <= query.maxPrice) &&
+      (query.listedAfter === undefined || (nft.listed_at !== null && nft.listed_at >= query.listedAfter)) &&
+      (query.listedBefore === undefined || (nft.listed_at !== null && nft.listed_at <= query.listedBefore)) &&
+      (!search || nft.name.toLowerCase().includes(search) || nft.description.toLowerCase().includes(search))
+    );
+  });
+  return query.sort ? filtered.sort(sorters[query.sort]) : filtered;
+};
+
+const auctionSorters: { [key in AuctionSort]: (a: Auction, b: Auction) => number } = {
+  ending_soon: (a, b) => a.endTime - b.endTime,
+  newest: (a, b) => b.id - a.id,
+};
+
+export const applyAuctionQuery = (auctions: Auction[], query: AuctionQuery): Auction[] => {
+  const filtered = auctions.filter(
+    (auction) =>
+      (query.endsAfter === undefined || auction.endTime > query.endsAfter) &&
+      (query.endsBefore === undefined || auction.endTime <= query.endsBefore)
+  );
+  return query.sort ? filtered.sort(auctionSorters[query.sort]) : filtered;
+};
+
+// Reads straight from the contract. Owner collections page through
+// `get_all_nfts_for_owner`; the market and auctions have no paginated view, so
+// they are loaded once and paged in memory. Activity and last sales come from
+// the event history, and only the requested page is timestamped. Price
+// histories share one log of that history, topped up with new events per read.
+export class ViewNftDataSource implements NftDataSource {
+  readonly marketplace: MarketplaceClient;
+  private readonly priceLog: PriceRecordLog;
+
+  constructor(marketplace: MarketplaceClient) {
+    this.marketplace = marketplace;
+    this.priceLog = new PriceRecordLog(marketplace);
+  }
+
+  async getMarketNfts(query: MarketQuery): Promise<Page<NFT>> {
+    return pageOf(applyMarketQuery(await this.marketplace.getMarketplaceNfts(), query), query);
+  }
+
+  async getOwnerNfts(owner: string, query: PageQuery): Promise<Page<NFT>> {
+    // Ask for one extra id to learn whether there is a next page.
+    const ids = await this.marketplace.getAllNftsForOwner(owner, query.limit + 1, query.offset);
+    const items = await Promise.all(ids.slice(0, query.limit).map((id) => this.marketplace.getNftDetails(id)));
+    return { items, total: null, hasMore: ids.length > query.limit };
+  }
+
+  async getOwnerListings(owner: string, query: PageQuery): Promise<Page<NFT>> {
+    const nfts = await this.marketplace.getMarketplaceNfts();
+    return pageOf(nfts.filter((nft) => nft.for_sale && sameAddress(nft.owner, owner)), query);
+  }
+
+  async getAuctions(query: AuctionQuery): Promise<Page<Auction>> {
+    return pageOf(applyAuctionQuery(await this.marketplace.getAllAuctions(), query), query);
+  }
+
+  async getCollections(): Promise<CollectionSummary[]> {
+    if (!(await this.marketplace.getModuleFunctions()).has("get_all_collections")) return [];
+    const [collections, nfts, records] = await Promise.all([
+      this.marketplace.getAllCollections(),
+      this.marketplace.getMarketplaceNfts(),
+      this.priceLog.records(),
+    ]);
+    return collections.map((collection) => summarizeCollection(collection, nfts, records));
+  }
+
+  async getCollectionNfts(collectionId: number, query: CollectionNftsQuery): Promise<Page<NFT>> {
+    const [collections, nfts] = await Promise.all([this.marketplace.getAllCollections(), this.marketplace.getMarketplaceNfts()]);
+    const collection = collections.find((candidate) => candidate.id === collectionId);
+    const members = collection ? collectionNfts(collection, nfts) : [];
+    return pageOf(members.filter((nft) => !query.listedOnly || nft.for_sale), query);
+  }
+
+  async getAccountActivity(address: string, query: PageQuery): Promise<Page<PriceRecord>> {
+    const records = (await this.priceLog.records()).filter((record) => isAccountSale(record, address));
+    const page = pageOf(records.reverse(), query);
+    return { ...page, items: await withTimestamps(this.marketplace, page.items) };
+  }
+
+  async getFloors(): Promise<RarityFloors> {
+    return currentFloors(await this.marketplace.getMarketplaceNfts());
+  }
+
+  async getLastSales(nftIds: number[]): Promise<Map<number, PriceRecord>> {
+    const sales = lastSales(await this.priceLog.records());
+    return new Map(nftIds.filter((id) => sales.has(id)).map((id) => [id, sales.get(id)!]));
+  }
+
+  async getPriceHistory(nftId: number): Promise<PriceRecord[]> {
+    const records = (await this.priceLog.records()).filter((record) => record.nftId === nftId);
+    return withTimestamps(this.marketplace, records);
+  }
+
+  // Only the records inside the window are timestamped.
+  async getMarketHistory(fromMs: number | null): Promise<PriceRecord[]> {
+    const records = await this.priceLog.records();
+    const start = fromMs === null ? 0 : await firstRecordSince(this.marketplace, records, fromMs);
+    const timestamped = await withTimestamps(this.marketplace, records.slice(start));
+    return timestamped.filter((record) => record.timestamp > 0);
+  }
+}
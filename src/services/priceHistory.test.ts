@@ -0,0 +1,115 @@
+import MarketplaceClient from './marketplaceClient';
+import { MarketplaceEvent } from './marketplaceEvents';
+import { PriceRecord, PriceRecordLog, firstRecordSince, lastSales, toPriceRecords, withTimestamps } from './priceHistory';
+
+const base = (version: number) => ({ sequenceNumber: BigInt(0), version: String(version) });
+
+test('turns listings, auctions and sales into price records in chain order', () => {
+  const events: MarketplaceEvent[] = [
+    { ...base(30), kind: 'auctionSettled', auctionId: 1, nftId: 7, seller: '0xb', winner: '0xc', amount: '500' },
+    { ...base(10), kind: 'listed', nftId: 7, seller: '0xa', price: '100' },
+    { ...base(20), kind: 'purchased', nftId: 7, seller: '0xa', buyer: '0xb', price: '100' },
+    { ...base(15), kind: 'bid', auctionId: 1, nftId: 7, bidder: '0xc', amount: '400' },
+    { ...base(25), kind: 'auctionCreated', auctionId: 1, nftId: 7, seller: '0xb', startingPrice: '300', endTime: 99 },
+  ];
+
+  expect(toPriceRecords(events)).toEqual([
+    { kind: 'listed', nftId: 7, price: '100', seller: '0xa', buyer: null, version: '10', timestamp: 0 },
+    { kind: 'sale', nftId: 7, price: '100', seller: '0xa', buyer: '0xb', version: '20', timestamp: 0 },
+    { kind: 'auctioned', nftId: 7, price: '300', seller: '0xb', buyer: null, version: '25', timestamp: 0 },
+    { kind: 'auction', nftId: 7, price: '500', seller: '0xb', buyer: '0xc', version: '30', timestamp: 0 },
+  ]);
+});
+
+test('skips auctions that ended without a winner', () => {
+  const events: MarketplaceEvent[] = [
+    { ...base(1), kind: 'auctionSettled', auctionId: 1, nftId: 7, seller: '0xb', winner: null, amount: '0' },
+  ];
+  expect(toPriceRecords(events)).toEqual([]);
+});
+
+test('keeps the latest sale of each NFT', () => {
+  const records = toPriceRecords([
+    { ...base(1), kind: 'purchased', nftId: 7, seller: '0xa', buyer: '0xb', price: '100' },
+    { ...base(2), kind: 'listed', nftId: 7, seller: '0xb', price: '400' },
+    { ...base(3), kind: 'auctionSettled', auctionId: 1, nftId: 7, seller: '0xb', winner: '0xc', amount: '300' },
+    { ...base(4), kind: 'purchased', nftId: 8, seller: '0xa', buyer: '0xb', price: '50' },
+  ]);
+  const sales = lastSales(records);
+
+  expect(sales.get(7)?.price).toBe('300');
+  expect(sales.get(8)?.price).toBe('50');
+  expect(sales.has(9)).toBe(false);
+});
+
+test('timestamps records a few at a time and tolerates failed lookups', async () => {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const client = {
+    getTransactionByVersion: jest.fn(async (version: bigint) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await Promise.resolve();
+      inFlight--;
+      if (version === BigInt(3)) throw new Error('Not found');
+      return { timestamp: String(version * BigInt(1000000)) };
+    }),
+  };
+  const marketplace = new MarketplaceClient(client as any, '0xmkt');
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const records: PriceRecord[] = Array.from({ length: 20 }, (_, i) => ({
+    kind: 'sale',
+    nftId: i,
+    price: '1',
+    seller: '0xa',
+    buyer: '0xb',
+    version: String(i + 1),
+    timestamp: 0,
+  }));
+
+  const timestamped = await withTimestamps(marketplace, records);
+  expect(timestamped.map((record) => record.timestamp).slice(0, 4)).toEqual([1000, 2000, 0, 4000]);
+  expect(timestamped[19].timestamp).toBe(20000);
+  expect(maxInFlight).toBeLessThanOrEqual(6);
+  expect(warn).toHaveBeenCalledTimes(1);
+  warn.mockRestore();
+});
+
+test('finds the start of a window with a few timestamp lookups', async () => {
+  const records: PriceRecord[] = Array.from({ length: 100 }, (_, i) => ({
+    kind: 'listed',
+    nftId: i,
+    price: '1',
+    seller: '0xa',
+    buyer: null,
+    version: String(i + 1),
+    timestamp: 0,
+  }));
+  const marketplace = { getVersionTimestamp: jest.fn(async (version: string) => Number(version) * 1000) };
+
+  expect(await firstRecordSince(marketplace as any, records, 42500)).toBe(42);
+  expect(marketplace.getVersionTimestamp.mock.calls.length).toBeLessThanOrEqual(7);
+  expect(await firstRecordSince(marketplace as any, records, 200000)).toBe(100);
+});
+
+test('reads the event history once, then only the events since', async () => {
+  const listing = (sequence: number, price: string) => ({
+    sequence_number: String(sequence),
+    version: String(10 + sequence),
+    data: { nft_id: '7', seller: '0xa', price },
+  });
+  const listings = [listing(0, '100')];
+  const client = {
+    getAccountResource: jest.fn().mockResolvedValue({ data: { listing_events: { counter: '0' } } }),
+    getEventsByEventHandle: jest.fn(async (_: string, __: string, handle: string, { start }: { start: bigint }) =>
+      handle === 'listing_events' ? listings.slice(Number(start)) : []
+    ),
+  };
+  const log = new PriceRecordLog(new MarketplaceClient(client as any, '0xmkt'));
+
+  expect((await log.records()).map((record) => record.price)).toEqual(['100']);
+  listings.push(listing(1, '120'));
+  expect((await log.records()).map((record) => record.price)).toEqual(['100', '120']);
+  const starts = client.getEventsByEventHandle.mock.calls.map(([, , , { start }]) => start);
+  expect(starts).toEqual([BigInt(0), BigInt(1)]);
+});
@@ -0,0 +1,118 @@
+import MarketplaceClient from "./marketplaceClient";
+import { MarketplaceEvent, MarketplaceEventKind, fetchAllEvents } from "./marketplaceEvents";
+import { sameAddress } from "../utils/address";
+
+// "sale" is a fixed-price purchase, "auction" an auction settled with a winner,
+// and "auctioned" the start of an auction at its starting price.
+export type PriceRecordKind = "listed" | "auctioned" | "sale" | "auction";
+
+export interface PriceRecord {
+  kind: PriceRecordKind;
+  nftId: number;
+  price: string; // In octas
+  seller: string;
+  buyer: string | null; // Null for listings and auction starts
+  version?: string;
+  timestamp: number; // Unix ms, 0 until looked up
+}
+
+const versionOf = (record: PriceRecord) => BigInt(record.version ?? 0);
+
+// Oldest first, by the version of the transaction each happened in.
+export const compareRecords = (a: PriceRecord, b: PriceRecord) =>
+  versionOf(a) < versionOf(b) ? -1 : versionOf(a) > versionOf(b) ? 1 : 0;
+
+// The listings and sales among `events`, oldest first. Auctions that ended
+// without a winner changed no hands, so they are left out.
+export const toPriceRecords = (events: MarketplaceEvent[]): PriceRecord[] =>
+  events
+    .flatMap((event): PriceRecord[] => {
+      const base = { nftId: 0, version: event.version, timestamp: 0 };
+      switch (event.kind) {
+        case "listed":
+          return [{ ...base, kind: "listed", nftId: event.nftId, price: event.price, seller: event.seller, buyer: null }];
+        case "auctionCreated":
+          return [
+            { ...base, kind: "auctioned", nftId: event.nftId, price: event.startingPrice, seller: event.seller, buyer: null },
+          ];
+        case "purchased":
+          return [{ ...base, kind: "sale", nftId: event.nftId, price: event.price, seller: event.seller, buyer: event.buyer }];
+        case "auctionSettled":
+          return event.winner
+            ? [{ ...base, kind: "auction", nftId: event.nftId, price: event.amount, seller: event.seller, buyer: event.winner }]
+            : [];
+        default:
+          return [];
+      }
+    })
+    .sort(compareRecords);
+
+export const isSale = (record: PriceRecord) => record.kind === "sale" || record.kind === "auction";
+
+// The most recent sale of each NFT among `records`, which must be oldest first.
+export const lastSales = (records: PriceRecord[]): Map<number, PriceRecord> =>
+  new Map(records.filter(isSale).map((record) => [record.nftId, record]));
+
+// `records` with the time each happened, looked up from its transaction. A
+// record whose lookup fails keeps a timestamp of 0.
+export const withTimestamps = async (
+  marketplace: Pick<MarketplaceClient, "getVersionTimestamps">,
+  records: PriceRecord[]
+): Promise<PriceRecord[]> => {
+  const timestamps = await marketplace.getVersionTimestamps(records.flatMap((record) => record.version ?? []));
+  return records.map((record) => ({ ...record, timestamp: (record.version && timestamps.get(record.version)) || 0 }));
+};
+
+// The index of the first of `records` (oldest first) that happened at or after
+// `fromMs`. Times only grow with versions, so a binary search finds it with a
+// handful of lookups rather than one per record.
+export const firstRecordSince = async (
+  marketplace: Pick<MarketplaceClient, "getVersionTimestamp">,
+  records: PriceRecord[],
+  fromMs: number
+): Promise<number> => {
+  let low = 0;
+  let high = records.length;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    const { version } = records[mid];
+    const timestamp = version ? await marketplace.getVersionTimestamp(version) : 0;
+    if (timestamp >= fromMs) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+};
+
+const PRICE_EVENT_KINDS: MarketplaceEventKind[] = ["listed", "auctionCreated", "purchased", "auctionSettled"];
+
+// Every listing and sale in the marketplace's event history, without times.
+// The events read are kept, so each read after the first only fetches the
+// ones since. A data source keeps one for its network.
+export class PriceRecordLog {
+  readonly marketplace: MarketplaceClient;
+  private events: MarketplaceEvent[][] = PRICE_EVENT_KINDS.map(() => []);
+  private lastRead: Promise<unknown> = Promise.resolve();
+
+  constructor(marketplace: MarketplaceClient) {
+    this.marketplace = marketplace;
+  }
+
+  // Reads run one after another, so each starts where the last one stopped.
+  records(): Promise<PriceRecord[]> {
+    const read = this.lastRead.then(() => this.read());
+    this.lastRead = read.catch(() => undefined);
+    return read;
+  }
+
+  private async read(): Promise<PriceRecord[]> {
+    const fresh = await Promise.all(
+      PRICE_EVENT_KINDS.map((kind, i) => fetchAllEvents(this.marketplace, kind, BigInt(this.events[i].length)))
+    );
+    fresh.forEach((events, i) => this.events[i].push(...events));
+    return toPriceRecords(this.events.flat());
+  }
+}
+
+// Whether `address` was the seller or the buyer in a sale.
+export const isAccountSale = (record: PriceRecord, address: string) =>
+  isSale(record) && (sameAddress(record.seller, address) || sameAddress(record.buyer, address));
@@ -0,0 +1,55 @@
+import { QueryCache, hashKey, queryKeys } from './queryCache';
+
+test('hashes keys containing bigint amounts', () => {
+  expect(hashKey(['0xmkt', 'market', { minPrice: BigInt(5) }])).toBe('["0xmkt","market",{"minPrice":"5"}]');
+});
+
+test('shares in-flight requests for the same key', async () => {
+  const cache = new QueryCache();
+  const fetcher = jest.fn().mockResolvedValue([1, 2]);
+
+  const [a, b] = await Promise.all([cache.fetch(['k'], fetcher), cache.fetch(['k'], fetcher)]);
+  expect(a).toEqual([1, 2]);
+  expect(b).toBe(a);
+  expect(fetcher).toHaveBeenCalledTimes(1);
+});
+
+test('serves fresh data from the cache and refetches stale data', async () => {
+  const cache = new QueryCache();
+  const fetcher = jest.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+
+  await cache.fetch(['k'], fetcher, 60000);
+  expect(await cache.fetch(['k'], fetcher, 60000)).toBe('old');
+  expect(await cache.fetch(['k'], fetcher, 0)).toBe('new');
+  expect(fetcher).toHaveBeenCalledTimes(2);
+});
+
+test('invalidates every query under a prefix and notifies subscribers', async () => {
+  const cache = new QueryCache();
+  const owner = queryKeys.owner('0xmkt', '0xABC');
+  await cache.fetch([...owner, { offset: 0 }], async () => 'page 1');
+  await cache.fetch([...owner, { offset: 8 }], async () => 'page 2');
+  await cache.fetch(queryKeys.market('0xmkt'), async () => 'market');
+  const listener = jest.fn();
+  cache.subscribe([...owner, { offset: 8 }], listener);
+
+  cache.invalidate(queryKeys.owner('0xmkt', '0xabc'));
+
+  expect(cache.get([...owner, { offset: 0 }])?.invalidated).toBe(true);
+  expect(cache.get([...owner, { offset: 8 }])?.data).toBe('page 2');
+  expect(cache.get(queryKeys.market('0xmkt'))?.invalidated).toBe(false);
+  expect(listener).toHaveBeenCalledTimes(1);
+});
+
+test('drops results of fetches that were invalidated while in flight', async () => {
+  const cache = new QueryCache();
+  let resolve: (value: string) => void = () => undefined;
+  const pending = cache.fetch(['k'], () => new Promise<string>((r) => (resolve = r)));
+
+  cache.invalidate(['k']);
+  resolve('outdated');
+  await pending;
+
+  expect(cache.get(['k'])?.data).toBeUndefined();
+  expect(await cache.fetch(['k'], async () => 'fresh', 60000)).toBe('fresh');
+});
@@ -0,0 +1,128 @@
+import { normalizeAddress } from "../utils/address";
+
+export type QueryKey = readonly unknown[];
+
+export interface CacheEntry<T = unknown> {
+  data?: T;
+  error?: unknown;
+  updatedAt: number; // Unix ms of the last successful fetch, 0 if none
+  // Set by invalidate(); the next read refetches regardless of age.
+  invalidated: boolean;
+  promise?: Promise<T>;
+}
+
+type Listener = () => void;
+
+// Query arguments may carry bigint amounts, which JSON can't encode by default.
+export const hashKey = (key: QueryKey): string =>
+  JSON.stringify(key, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+
+const startsWith = (key: QueryKey, prefix: QueryKey) =>
+  prefix.length <= key.length && prefix.every((part, i) => hashKey([part]) === hashKey([key[i]]));
+
+// Keys for marketplace data. Queries add their page/filter arguments after
+// these, so invalidating one of them covers every page.
+export const queryKeys = {
+  market: (marketplaceAddr: string) => [marketplaceAddr, "market"] as const,
+  auctions: (marketplaceAddr: string) => [marketplaceAddr, "auctions"] as const,
+  // Kept apart from `auctions`: a bid patches the history instead of refetching it.
+  bidHistory: (marketplaceAddr: string, auctionId: number) => [marketplaceAddr, "bidHistory", auctionId] as const,
+  // An account's highest bid per auction, also patched by bids rather than refetched.
+  accountBids: (marketplaceAddr: string, bidder: string) =>
+    [marketplaceAddr, "accountBids", normalizeAddress(bidder)] as const,
+  owner: (marketplaceAddr: string, owner: string) => [marketplaceAddr, "owner", normalizeAddress(owner)] as const,
+  nft: (marketplaceAddr: string, id: number) => [marketplaceAddr, "nft", id] as const,
+  offers: (marketplaceAddr: string) => [marketplaceAddr, "offers"] as const,
+  collections: (marketplaceAddr: string) => [marketplaceAddr, "collections"] as const,
+  // Each NFT's last sale, refetched whenever something sells.
+  sales: (marketplaceAddr: string) => [marketplaceAddr, "sales"] as const,
+  // Not invalidated by events: rereading the whole window on every sale would
+  // cost far more than the dashboard gains, so it refreshes once stale instead.
+  analytics: (marketplaceAddr: string) => [marketplaceAddr, "analytics"] as const,
+  moduleFunctions: (marketplaceAddr: string) => [marketplaceAddr, "moduleFunctions"] as const,
+};
+
+// Remembers query results so pages render instantly from the last known data
+// while refetching in the background, and shares requests that are already in
+// flight between everyone asking for the same key.
+export class QueryCache {
+  private entries = new Map<string, { key: QueryKey; entry: CacheEntry }>();
+  private listeners = new Map<string, Set<Listener>>();
+
+  get<T>(key: QueryKey): CacheEntry<T> | undefined {
+    return this.entries.get(hashKey(key))?.entry as CacheEntry<T> | undefined;
+  }
+
+  isStale(key: QueryKey, staleTime: number): boolean {
+    const entry = this.get(key);
+    return !entry || entry.invalidated || Date.now() - entry.updatedAt >= staleTime;
+  }
+
+  // Resolves with cached data when it is fresh, otherwise fetches (or joins the
+  // fetch already running for this key).
+  fetch<T>(key: QueryKey, fetcher: () => Promise<T>, staleTime = 0): Promise<T> {
+    const hash = hashKey(key);
+    const existing = this.get<T>(key);
+    if (existing?.promise) return existing.promise;
+    if (existing && existing.updatedAt && !this.isStale(key, staleTime)) return Promise.resolve(existing.data as T);
+
+    // A fetch that started before an invalidation may return outdated data, so
+    // only the latest one gets to write.
+    const isCurrent = () => this.get(key)?.promise === promise;
+    const promise: Promise<T> = fetcher().then(
+      (data) => {
+        if (isCurrent()) {
+          this.write(hash, key, { data, error: undefined, updatedAt: Date.now(), invalidated: false, promise: undefined });
+        }
+        return data;
+      },
+      (error) => {
+        if (isCurrent()) this.write(hash, key, { error, promise: undefined });
+        throw error;
+      }
+    );
+    this.write(hash, key, { promise }, false);
+    return promise;
+  }
+
+  setData<T>(key: QueryKey, data: T) {
+    this.write(hashKey(key), key, { data, error: undefined, updatedAt: Date.now(), invalidated: false });
+  }
+
+  // Patches cached data in place, e.g. from an event, without refetching.
+  update<T>(key: QueryKey, updater: (data: T) => T) {
+    const entry = this.get<T>(key);
+    if (entry?.data === undefined) return;
+    this.write(hashKey(key), key, { data: updater(entry.data) });
+  }
+
+  // Marks every entry under `prefix` as stale and tells mounted queries to refetch.
+  invalidate(prefix: QueryKey) {
+    this.entries.forEach(({ key, entry }, hash) => {
+      if (!startsWith(key, prefix)) return;
+      entry.invalidated = true;
+      entry.promise = undefined;
+      entry.error = undefined;
+      this.notify(hash);
+    });
+  }
+
+  subscribe(key: QueryKey, listener: Listener): () => void {
+    const hash = hashKey(key);
+    if (!this.listeners.has(hash)) this.listeners.set(hash, new Set());
+    this.listeners.get(hash)!.add(listener);
+    return () => {
+      this.listeners.get(hash)?.delete(listener);
+    };
+  }
+
+  private write(hash: string, key: QueryKey, changes: Partial<CacheEntry>, notify = true) {
+    const current = this.entries.get(hash)?.entry ?? { updatedAt: 0, invalidated: false };
+    this.entries.set(hash, { key, entry: { ...current, ...changes } });
+    if (notify) this.notify(hash);
+  }
+
+  private notify(hash: string) {
+    this.listeners.get(hash)?.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,12 @@
+import { normalizeAddress, sameAddress } from './address';
+
+test('normalizes case and leading zeros', () => {
+  expect(normalizeAddress('0x00AB')).toBe('0xab');
+  expect(normalizeAddress('0x' + '0'.repeat(62) + '01')).toBe('0x1');
+});
+
+test('compares addresses loosely', () => {
+  expect(sameAddress('0x0abc', '0xABC')).toBe(true);
+  expect(sameAddress('0xabc', '0xabd')).toBe(false);
+  expect(sameAddress(undefined, '0xabc')).toBe(false);
+});
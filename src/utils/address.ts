@@ -0,0 +1,12 @@
+import { HexString } from "aptos";
+
+// Wallets, views and events don't agree on case or leading zeros ("0x0a1" vs
+// "0xA1"), so compare addresses in their short lowercase form.
+export const normalizeAddress = (address: string): string => HexString.ensure(address.toLowerCase()).toShortString();
+
+export const sameAddress = (a?: string | null, b?: string | null): boolean =>
+  !!a && !!b && normalizeAddress(a) === normalizeAddress(b);
+
+export const truncateAddress = (address: string, start = 6, end = 4) => {
+  return `${address.slice(0, start)}...${address.slice(-end)}`;
+};
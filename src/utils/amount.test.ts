@@ -0,0 +1,42 @@
+import { MAX_U64, compareOctas, formatApt, parseAptInput, toOctasString } from './amount';
+
+describe('parseAptInput', () => {
+  test('parses exact octas without float rounding', () => {
+    expect(parseAptInput('0.3')).toEqual({ ok: true, octas: BigInt(30000000) });
+    expect(parseAptInput(' 1.23456789 ')).toEqual({ ok: true, octas: BigInt(123456789) });
+  });
+
+  test('rejects more than 8 decimals', () => {
+    expect(parseAptInput('1.000000001')).toEqual({ ok: false, error: 'APT supports at most 8 decimal places.' });
+  });
+
+  test('rejects non-numeric and exponent input', () => {
+    expect(parseAptInput('abc').ok).toBe(false);
+    expect(parseAptInput('1e8').ok).toBe(false);
+    expect(parseAptInput('.').ok).toBe(false);
+    expect(parseAptInput('').ok).toBe(false);
+  });
+
+  test('enforces the u64 range', () => {
+    expect(parseAptInput('184467440737.09551615')).toEqual({ ok: true, octas: MAX_U64 });
+    expect(parseAptInput('184467440737.09551616')).toEqual({ ok: false, error: 'Amount is too large.' });
+  });
+
+  test('rejects zero unless allowed', () => {
+    expect(parseAptInput('0').ok).toBe(false);
+    expect(parseAptInput('0', { allowZero: true })).toEqual({ ok: true, octas: BigInt(0) });
+  });
+});
+
+test('toOctasString never produces exponent notation', () => {
+  expect(toOctasString(BigInt('100000000000000000000'))).toBe('100000000000000000000');
+});
+
+test('formatApt formats octas for display', () => {
+  expect(formatApt('29999999')).toBe('0.29999999 APT');
+});
+
+test('compareOctas compares without losing precision', () => {
+  expect(compareOctas('18446744073709551615', '18446744073709551614')).toBe(1);
+  expect(compareOctas(BigInt(5), '5')).toBe(0);
+});
@@ -0,0 +1,46 @@
+import { aptToOctas, octasToApt, toOctas } from "./codec";
+
+// Amounts are carried around as octas, either as a bigint or as the decimal
+// u64 string the chain uses. Never as a float.
+export type Octas = bigint | string;
+
+export const MAX_U64 = BigInt("18446744073709551615");
+
+export type ParsedAmount = { ok: true; octas: bigint } | { ok: false; error: string };
+
+// Validates what a user typed into an APT input and converts it to octas.
+export const parseAptInput = (input: string, { allowZero = false } = {}): ParsedAmount => {
+  const value = input.trim();
+  if (!value) {
+    return { ok: false, error: "Please enter an amount." };
+  }
+  if (!/^\d*\.?\d*$/.test(value) || value === ".") {
+    return { ok: false, error: "Please enter a valid APT amount." };
+  }
+  const [, fraction = ""] = value.split(".");
+  if (fraction.length > 8) {
+    return { ok: false, error: "APT supports at most 8 decimal places." };
+  }
+
+  const octas = aptToOctas(value);
+  if (octas > MAX_U64) {
+    return { ok: false, error: "Amount is too large." };
+  }
+  if (!allowZero && octas === BigInt(0)) {
+    return { ok: false, error: "Amount must be greater than 0." };
+  }
+  return { ok: true, octas };
+};
+
+export const toOctasString = (octas: Octas): string => toOctas(octas).toString();
+
+export const formatApt = (octas: Octas): string => `${octasToApt(octas)} APT`;
+
+// Lossy conversion for sliders, charts and other places that only need an approximate number.
+export const toAptNumber = (octas: Octas): number => Number(octasToApt(octas));
+
+export const compareOctas = (a: Octas, b: Octas): number => {
+  const left = toOctas(a);
+  const right = toOctas(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+};
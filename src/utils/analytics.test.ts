@@ -0,0 +1,83 @@
+import { PriceRecord } from '../services/priceHistory';
+import { DAY_MS, averageTimeToSaleMs, dailyStats, dailyStatsCsv, recordsInWindow, toCsv, topTraders, windowStart } from './analytics';
+
+const record = (kind: PriceRecord['kind'], nftId: number, price: string, timestamp: number, seller = '0xa', buyer = '0xb'): PriceRecord => ({
+  kind,
+  nftId,
+  price,
+  seller,
+  buyer: kind === 'sale' || kind === 'auction' ? buyer : null,
+  timestamp,
+});
+
+const rarityOf = (nftId: number) => (nftId === 1 ? 1 : 4);
+
+test('buckets listings and sales by day, including quiet days', () => {
+  const records = [
+    record('listed', 1, '300', 1),
+    record('listed', 2, '900', 1000),
+    record('listed', 1, '200', 2000),
+    record('sale', 1, '200', DAY_MS * 2 + 5),
+    record('auction', 2, '1000', DAY_MS * 2 + 9),
+  ];
+  const days = dailyStats(records, rarityOf, DAY_MS * 2 + 10);
+
+  expect(days.map((day) => [day.day, day.sales, day.volume, day.listings])).toEqual([
+    [0, 0, BigInt(0), 3],
+    [DAY_MS, 0, BigInt(0), 0],
+    [DAY_MS * 2, 2, BigInt(1200), 0],
+  ]);
+  expect(days[0].lowestListings).toEqual({ 1: BigInt(200), 2: null, 3: null, 4: BigInt(900) });
+});
+
+test('leaves out records without a timestamp', () => {
+  const records = [record('sale', 1, '100', 0), record('listed', 2, '50', DAY_MS + 1), record('sale', 2, '50', DAY_MS + 9)];
+  const days = dailyStats(records, rarityOf, DAY_MS + 10);
+
+  expect(days.map((day) => [day.day, day.sales])).toEqual([[DAY_MS, 1]]);
+  expect(averageTimeToSaleMs(records)).toBe(8);
+});
+
+test('limits records to the selected window', () => {
+  const records = [record('sale', 1, '1', 0), record('sale', 1, '1', 1), record('sale', 1, '1', DAY_MS * 10)];
+  expect(recordsInWindow(records, '7d', DAY_MS * 10)).toHaveLength(1);
+  expect(recordsInWindow(records, 'all', DAY_MS * 10)).toHaveLength(2);
+  expect(windowStart('7d', DAY_MS * 10 + 5)).toBe(DAY_MS * 4);
+  expect(windowStart('all', DAY_MS * 10)).toBeNull();
+});
+
+test('averages time from listing or auction start to sale', () => {
+  const records = [
+    record('listed', 1, '100', 1000),
+    record('listed', 1, '90', 2000),
+    record('sale', 1, '90', 5000),
+    record('auctioned', 2, '10', 1000),
+    record('auction', 2, '50', 8000),
+    record('sale', 3, '10', 9000),
+  ];
+  expect(averageTimeToSaleMs(records)).toBe(5000);
+  expect(averageTimeToSaleMs([record('listed', 1, '1', 1)])).toBeNull();
+});
+
+test('ranks traders by volume', () => {
+  const records = [
+    record('sale', 1, '100', 0, '0xa', '0xb'),
+    record('auction', 2, '300', 0, '0xc', '0xB'),
+    record('sale', 3, '50', 0, '0xA', '0xd'),
+    record('listed', 4, '999', 0, '0xe'),
+  ];
+  expect(topTraders(records, 'seller').map((t) => [t.address, t.volume, t.count])).toEqual([
+    ['0xc', BigInt(300), 1],
+    ['0xa', BigInt(150), 2],
+  ]);
+  expect(topTraders(records, 'buyer', 1).map((t) => [t.address, t.volume])).toEqual([['0xb', BigInt(400)]]);
+});
+
+test('exports the daily series as CSV', () => {
+  const days = dailyStats([record('listed', 1, '150000000', 1), record('sale', 1, '150000000', 10)], rarityOf, 10);
+  expect(dailyStatsCsv(days).split('\n')).toEqual([
+    'date,sales,volume_apt,listings,lowest_listing_common_apt,lowest_listing_uncommon_apt,lowest_listing_rare_apt,lowest_listing_super_rare_apt',
+    '1970-01-01,1,1.5,1,1.5,,,',
+  ]);
+  expect(toCsv([['a,b', 'say "hi"']])).toBe('"a,b","say ""hi"""');
+});
@@ -0,0 +1,158 @@
+import { NFT } from "../services/marketplaceClient";
+import { PriceRecord, isSale } from "../services/priceHistory";
+import { normalizeAddress } from "./address";
+import { octasToApt } from "./codec";
+import { MAX_RARITY, rarityLabels } from "./rarity";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ANALYTICS_WINDOWS = [
+  { key: "7d", label: "7 days", days: 7 },
+  { key: "30d", label: "30 days", days: 30 },
+  { key: "90d", label: "90 days", days: 90 },
+  { key: "all", label: "All time", days: null },
+] as const;
+
+export type AnalyticsWindow = (typeof ANALYTICS_WINDOWS)[number]["key"];
+
+type RarityMap<T> = { [rarity: number]: T };
+
+export interface DailyStats {
+  day: number; // Unix ms of the UTC midnight the day starts at
+  volume: bigint; // In octas
+  sales: number;
+  listings: number;
+  // The cheapest new listing of the day per rarity, in octas. Not the floor:
+  // listings made on earlier days and still open don't count.
+  lowestListings: RarityMap<bigint | null>;
+}
+
+export interface TraderStats {
+  address: string;
+  volume: bigint; // In octas
+  count: number;
+}
+
+const rarities = () => Array.from({ length: MAX_RARITY }, (_, i) => i + 1);
+
+const emptyPrices = (): RarityMap<bigint | null> => Object.fromEntries(rarities().map((rarity) => [rarity, null]));
+
+const minOctas = (current: bigint | null, price: bigint) => (current === null || price < current ? price : current);
+
+export const startOfDay = (timestamp: number) => Math.floor(timestamp / DAY_MS) * DAY_MS;
+
+// Records whose time couldn't be looked up carry 0 and are left out of
+// anything plotted or timed.
+const hasTimestamp = (record: PriceRecord) => record.timestamp > 0;
+
+// Unix ms of the start of the window ending at `nowMs`; null for all time.
+export const windowStart = (window: AnalyticsWindow, nowMs: number): number | null => {
+  const days = ANALYTICS_WINDOWS.find((candidate) => candidate.key === window)?.days ?? null;
+  return days === null ? null : startOfDay(nowMs) - (days - 1) * DAY_MS;
+};
+
+// The timed records inside the window ending at `nowMs`.
+export const recordsInWindow = (records: PriceRecord[], window: AnalyticsWindow, nowMs: number): PriceRecord[] => {
+  const from = windowStart(window, nowMs);
+  return records.filter((record) => hasTimestamp(record) && (from === null || record.timestamp >= from));
+};
+
+// One entry per day from the first record to `nowMs`, including quiet days so
+// charts and exports have an even time axis. `rarityOf` looks up NFT rarities,
+// which the events don't carry.
+export const dailyStats = (
+  records: PriceRecord[],
+  rarityOf: (nftId: number) => number | undefined,
+  nowMs: number
+): DailyStats[] => {
+  const timed = records.filter(hasTimestamp);
+  if (timed.length === 0) return [];
+  const first = startOfDay(timed.reduce((earliest, record) => Math.min(earliest, record.timestamp), Infinity));
+  const days = new Map<number, DailyStats>();
+  for (let day = first; day <= startOfDay(nowMs); day += DAY_MS) {
+    days.set(day, { day, volume: BigInt(0), sales: 0, listings: 0, lowestListings: emptyPrices() });
+  }
+
+  timed.forEach((record) => {
+    const stats = days.get(startOfDay(record.timestamp));
+    if (!stats) return;
+    if (isSale(record)) {
+      stats.sales++;
+      stats.volume += BigInt(record.price);
+    } else if (record.kind === "listed") {
+      stats.listings++;
+      const rarity = rarityOf(record.nftId);
+      if (rarity !== undefined) {
+        stats.lowestListings[rarity] = minOctas(stats.lowestListings[rarity] ?? null, BigInt(record.price));
+      }
+    }
+  });
+  return Array.from(days.values());
+};
+
+// The cheapest listing right now per rarity, in octas.
+export const currentFloors = (nfts: NFT[]): RarityMap<bigint | null> => {
+  const floors = emptyPrices();
+  nfts.filter((nft) => nft.for_sale).forEach((nft) => (floors[nft.rarity] = minOctas(floors[nft.rarity] ?? null, BigInt(nft.price))));
+  return floors;
+};
+
+// How long NFTs took to sell: from their latest listing to a purchase, or from
+// the start of an auction to its settlement. Null when nothing has sold.
+export const averageTimeToSaleMs = (records: PriceRecord[]): number | null => {
+  const listedAt = new Map<number, number>();
+  const auctionedAt = new Map<number, number>();
+  const durations: number[] = [];
+  records
+    .filter(hasTimestamp)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach((record) => {
+      if (record.kind === "listed") listedAt.set(record.nftId, record.timestamp);
+      if (record.kind === "auctioned") auctionedAt.set(record.nftId, record.timestamp);
+      const starts = record.kind === "sale" ? listedAt : record.kind === "auction" ? auctionedAt : null;
+      const start = starts?.get(record.nftId);
+      if (starts && start !== undefined) {
+        durations.push(record.timestamp - start);
+        starts.delete(record.nftId);
+      }
+    });
+  return durations.length ? durations.reduce((total, duration) => total + duration, 0) / durations.length : null;
+};
+
+// The accounts with the most sales volume on one side of the trade.
+export const topTraders = (records: PriceRecord[], side: "seller" | "buyer", limit = 5): TraderStats[] => {
+  const traders = new Map<string, TraderStats>();
+  records.filter(isSale).forEach((record) => {
+    const address = record[side]!;
+    const key = normalizeAddress(address);
+    const trader = traders.get(key) ?? { address, volume: BigInt(0), count: 0 };
+    trader.volume += BigInt(record.price);
+    trader.count++;
+    traders.set(key, trader);
+  });
+  return Array.from(traders.values())
+    .sort((a, b) => (a.volume === b.volume ? b.count - a.count : a.volume < b.volume ? 1 : -1))
+    .slice(0, limit);
+};
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]): string => rows.map((row) => row.map(csvField).join(",")).join("\n");
+
+const csvName = (label: string) => label.toLowerCase().replace(/\s+/g, "_");
+
+// The daily series as CSV, with amounts in APT.
+export const dailyStatsCsv = (days: DailyStats[]): string =>
+  toCsv([
+    ["date", "sales", "volume_apt", "listings", ...rarities().map((rarity) => `lowest_listing_${csvName(rarityLabels[rarity])}_apt`)],
+    ...days.map((stats) => [
+      new Date(stats.day).toISOString().slice(0, 10),
+      stats.sales,
+      octasToApt(stats.volume),
+      stats.listings,
+      ...rarities().map((rarity) => (stats.lowestListings[rarity] !== null ? octasToApt(stats.lowestListings[rarity]!) : "")),
+    ]),
+  ]);
@@ -0,0 +1,32 @@
+import { appendBid, summarizeBids } from './bidHistory';
+
+const bid = (sequence: number, bidder: string, amount: string) => ({
+  bidder,
+  amount,
+  timestamp: sequence * 1000,
+  sequenceNumber: BigInt(sequence),
+});
+
+test('orders bids and ranks bidders by their highest bid', () => {
+  const summary = summarizeBids([bid(3, '0xa', '300'), bid(1, '0xa', '100'), bid(2, '0xB', '200'), bid(4, '0x0b', '400')]);
+
+  expect(summary.bids.map((b) => b.amount)).toEqual(['100', '200', '300', '400']);
+  expect(summary.uniqueBidders).toBe(2);
+  expect(summary.leaderboard).toEqual([
+    { bidder: '0xB', highestBid: '400', bidCount: 2, lastBidAt: 4000 },
+    { bidder: '0xa', highestBid: '300', bidCount: 2, lastBidAt: 3000 },
+  ]);
+});
+
+test('summarizes auctions without bids', () => {
+  expect(summarizeBids([])).toEqual({ bids: [], uniqueBidders: 0, leaderboard: [] });
+});
+
+test('appends a new bid once', () => {
+  const summary = summarizeBids([bid(1, '0xa', '100')]);
+  const appended = appendBid(summary, bid(2, '0xb', '200'));
+
+  expect(appended.bids.map((b) => b.amount)).toEqual(['100', '200']);
+  expect(appended.leaderboard[0]).toEqual({ bidder: '0xb', highestBid: '200', bidCount: 1, lastBidAt: 2000 });
+  expect(appendBid(appended, bid(2, '0xb', '200'))).toBe(appended);
+});
@@ -0,0 +1,48 @@
+import { compareOctas } from "./amount";
+import { normalizeAddress } from "./address";
+
+export interface BidRecord {
+  bidder: string;
+  amount: string; // In octas
+  timestamp: number; // Unix ms, 0 when its time couldn't be read
+  sequenceNumber: bigint;
+}
+
+export interface BidderStanding {
+  bidder: string;
+  highestBid: string; // In octas
+  bidCount: number;
+  lastBidAt: number; // Unix ms
+}
+
+export interface BidSummary {
+  bids: BidRecord[]; // Oldest first
+  uniqueBidders: number;
+  leaderboard: BidderStanding[]; // Highest bid first
+}
+
+export const summarizeBids = (records: BidRecord[]): BidSummary => {
+  const bids = [...records].sort((a, b) => (a.sequenceNumber < b.sequenceNumber ? -1 : 1));
+  const standings = new Map<string, BidderStanding>();
+  bids.forEach((bid) => {
+    const key = normalizeAddress(bid.bidder);
+    const standing = standings.get(key);
+    if (!standing) {
+      standings.set(key, { bidder: bid.bidder, highestBid: bid.amount, bidCount: 1, lastBidAt: bid.timestamp });
+      return;
+    }
+    standing.bidCount++;
+    standing.lastBidAt = bid.timestamp;
+    if (compareOctas(bid.amount, standing.highestBid) > 0) standing.highestBid = bid.amount;
+  });
+
+  const leaderboard = Array.from(standings.values()).sort((a, b) => compareOctas(b.highestBid, a.highestBid));
+  return { bids, uniqueBidders: standings.size, leaderboard };
+};
+
+// `summary` with one more bid, e.g. from a live event. A bid it already holds
+// (the history was fetched after the event) leaves it as it is.
+export const appendBid = (summary: BidSummary, record: BidRecord): BidSummary =>
+  summary.bids.some((bid) => bid.sequenceNumber === record.sequenceNumber)
+    ? summary
+    : summarizeBids([...summary.bids, record]);
@@ -0,0 +1,56 @@
+import { Auction } from '../services/marketplaceClient';
+import { BidRules, incrementFor, minimumBid, quickBids, validateBid } from './bidRules';
+
+const APT = BigInt(100000000);
+
+const auction = (currentBid: bigint, highestBidder = '0xb'): Auction => ({
+  id: 1,
+  nftId: 7,
+  seller: '0xa',
+  startingPrice: (BigInt(2) * APT).toString(),
+  currentBid: currentBid.toString(),
+  highestBidder,
+  endTime: 0,
+  nftDetails: { name: 'Seven', description: '', uri: '', rarity: 1 },
+});
+
+test('picks the increment from the tier the current bid falls in', () => {
+  expect(incrementFor(BigInt(5) * APT)).toBe(APT / BigInt(10));
+  expect(incrementFor(BigInt(50) * APT)).toBe(APT / BigInt(2));
+  expect(incrementFor(BigInt(2000) * APT)).toBe(BigInt(10) * APT);
+});
+
+test('rounds percentage increments up', () => {
+  const rules: BidRules = { tiers: [{ from: BigInt(0), increment: { kind: 'percent', basisPoints: 100 } }] };
+  expect(incrementFor(BigInt(150), rules)).toBe(BigInt(2));
+});
+
+test('uses the starting price as the floor before any bids', () => {
+  const unbid = auction(BigInt(0), '0x0');
+  expect(minimumBid(unbid)).toBe(BigInt(2) * APT);
+  expect(validateBid(unbid, APT, '0xc')).toBe('The first bid must be at least the starting price of 2 APT.');
+  expect(validateBid(unbid, BigInt(2) * APT, '0xc')).toBeNull();
+});
+
+test('requires beating the current bid by the increment', () => {
+  expect(validateBid(auction(BigInt(3) * APT), BigInt(3) * APT, '0xc')).toBe('Bid must be at least 3.1 APT.');
+  expect(validateBid(auction(BigInt(3) * APT), BigInt(31) * (APT / BigInt(10)), '0xc')).toBeNull();
+});
+
+test('blocks the seller and the current highest bidder', () => {
+  expect(validateBid(auction(BigInt(3) * APT), BigInt(10) * APT, '0x0A')).toBe("You can't bid on your own auction.");
+  expect(validateBid(auction(BigInt(3) * APT), BigInt(10) * APT, '0xb')).toBe("You're already the highest bidder.");
+});
+
+test('suggests quick bids at or above the minimum', () => {
+  expect(quickBids(auction(BigInt(10) * APT)).map((bid) => bid.octas)).toEqual([
+    BigInt(101) * (APT / BigInt(10)),
+    BigInt(105) * (APT / BigInt(10)),
+    BigInt(11) * APT,
+  ]);
+  expect(quickBids(auction(APT)).map((bid) => bid.octas)).toEqual([
+    BigInt(11) * (APT / BigInt(10)),
+    BigInt(11) * (APT / BigInt(10)),
+    BigInt(11) * (APT / BigInt(10)),
+  ]);
+});
@@ -0,0 +1,92 @@
+import { Auction } from "../services/marketplaceClient";
+import { formatApt } from "./amount";
+import { sameAddress } from "./address";
+import { OCTAS_PER_APT, toOctas } from "./codec";
+import { hasBids } from "./settlement";
+
+export type BidIncrement = { kind: "absolute"; octas: bigint } | { kind: "percent"; basisPoints: number };
+
+export interface IncrementTier {
+  from: bigint; // Current bid in octas at which this tier starts, inclusive
+  increment: BidIncrement;
+}
+
+export interface BidRules {
+  // Sorted by `from`, starting at 0.
+  tiers: IncrementTier[];
+}
+
+const apt = (value: number) => BigInt(value) * OCTAS_PER_APT;
+
+// 0.1 APT steps for small auctions, 1% once bids reach 10 APT, and 10 APT
+// steps from 1,000 APT. The tiers meet at their boundaries, so the minimum
+// bid never drops as the price rises.
+export const DEFAULT_BID_RULES: BidRules = {
+  tiers: [
+    { from: BigInt(0), increment: { kind: "absolute", octas: OCTAS_PER_APT / BigInt(10) } },
+    { from: apt(10), increment: { kind: "percent", basisPoints: 100 } },
+    { from: apt(1000), increment: { kind: "absolute", octas: apt(10) } },
+  ],
+};
+
+// Rounds up so a percentage never lets a bid through by a fraction of an octa.
+const percentOf = (octas: bigint, basisPoints: number) =>
+  (octas * BigInt(basisPoints) + BigInt(9999)) / BigInt(10000);
+
+export const incrementFor = (currentBid: bigint, rules: BidRules = DEFAULT_BID_RULES): bigint => {
+  const tier = [...rules.tiers].reverse().find((candidate) => currentBid >= candidate.from) ?? rules.tiers[0];
+  return tier.increment.kind === "absolute" ? tier.increment.octas : percentOf(currentBid, tier.increment.basisPoints);
+};
+
+// The first bid only has to meet the starting price; later ones must beat the
+// current bid by the tier's increment.
+export const minimumBid = (auction: Auction, rules: BidRules = DEFAULT_BID_RULES): bigint => {
+  if (!hasBids(auction)) return toOctas(auction.startingPrice);
+  const currentBid = toOctas(auction.currentBid);
+  return currentBid + incrementFor(currentBid, rules);
+};
+
+// Why `bidder` can't bid on `auction` at all, regardless of amount.
+export const bidBlockedReason = (auction: Auction, bidder: string | undefined): string | null => {
+  if (sameAddress(auction.seller, bidder)) return "You can't bid on your own auction.";
+  if (hasBids(auction) && sameAddress(auction.highestBidder, bidder)) return "You're already the highest bidder.";
+  return null;
+};
+
+export const validateBid = (
+  auction: Auction,
+  bidOctas: bigint,
+  bidder: string | undefined,
+  rules: BidRules = DEFAULT_BID_RULES
+): string | null => {
+  const blocked = bidBlockedReason(auction, bidder);
+  if (blocked) return blocked;
+  const minimum = minimumBid(auction, rules);
+  if (bidOctas < minimum) {
+    return hasBids(auction)
+      ? `Bid must be at least ${formatApt(minimum)}.`
+      : `The first bid must be at least the starting price of ${formatApt(minimum)}.`;
+  }
+  return null;
+};
+
+export interface QuickBid {
+  label: string;
+  octas: bigint;
+}
+
+// Suggested bids: the minimum, then 5% and 10% over the current price (or the
+// starting price before any bids), never below the minimum.
+export const quickBids = (auction: Auction, rules: BidRules = DEFAULT_BID_RULES): QuickBid[] => {
+  const minimum = minimumBid(auction, rules);
+  const base = toOctas(hasBids(auction) ? auction.currentBid : auction.startingPrice);
+  const above = (basisPoints: number) => {
+    const octas = base + percentOf(base, basisPoints);
+    return octas > minimum ? octas : minimum;
+  };
+  return [
+    { label: "Min bid", octas: minimum },
+    { label: "+5%", octas: above(500) },
+    { label: "+10%", octas: above(1000) },
+  ];
+};
@@ -0,0 +1,44 @@
+import { NFT } from '../services/marketplaceClient';
+import { BulkJob, bulkPrice, bulkProgress, floorRelativePrice, retryableJobs } from './bulkListing';
+
+const nft = (id: number, rarity: number): NFT => ({
+  id,
+  owner: '0xa',
+  name: `NFT ${id}`,
+  description: '',
+  uri: '',
+  price: '0',
+  for_sale: false,
+  rarity,
+  listed_at: 0,
+});
+
+test('moves the floor by a percentage', () => {
+  expect(floorRelativePrice(BigInt(1000), 10)).toBe(BigInt(1100));
+  expect(floorRelativePrice(BigInt(1000), -25)).toBe(BigInt(750));
+  expect(floorRelativePrice(BigInt(1000), 0.05)).toBe(BigInt(1000));
+  expect(floorRelativePrice(BigInt(100000000), 12.5)).toBe(BigInt(112500000));
+  expect(floorRelativePrice(BigInt(1000), -100)).toBeNull();
+});
+
+test('prices each NFT under the chosen pricing', () => {
+  const floors = { 1: BigInt(200), 2: null, 3: null, 4: null };
+
+  expect(bulkPrice(nft(1, 3), { mode: 'single', price: BigInt(50) }, floors)).toBe(BigInt(50));
+  expect(bulkPrice(nft(1, 1), { mode: 'rarity', prices: { 1: BigInt(10), 3: BigInt(30) } }, floors)).toBe(BigInt(10));
+  expect(bulkPrice(nft(1, 2), { mode: 'rarity', prices: { 1: BigInt(10) } }, floors)).toBeNull();
+  expect(bulkPrice(nft(1, 1), { mode: 'floor', percent: 10 }, floors)).toBe(BigInt(220));
+  expect(bulkPrice(nft(1, 2), { mode: 'floor', percent: 10 }, floors)).toBeNull();
+});
+
+test('tracks queue progress and what to retry', () => {
+  const jobs: BulkJob[] = [
+    { nft: nft(1, 1), price: BigInt(1), status: 'done' },
+    { nft: nft(2, 1), price: BigInt(1), status: 'failed', error: 'Aborted' },
+    { nft: nft(3, 1), price: BigInt(1), status: 'skipped' },
+    { nft: nft(4, 1), price: BigInt(1), status: 'queued' },
+  ];
+
+  expect(bulkProgress(jobs)).toEqual({ done: 1, failed: 1, skipped: 1, finished: 3 });
+  expect(retryableJobs(jobs).map((job) => job.nft.id)).toEqual([2, 3]);
+});
@@ -0,0 +1,61 @@
+import { NFT } from "../services/marketplaceClient";
+
+export type BulkPricing =
+  | { mode: "single"; price: bigint }
+  | { mode: "rarity"; prices: { [rarity: number]: bigint | undefined } }
+  // Percent above (or, when negative, below) the current floor of the NFT's rarity.
+  | { mode: "floor"; percent: number };
+
+export const BULK_PRICING_MODES: { key: BulkPricing["mode"]; label: string }[] = [
+  { key: "single", label: "Single price" },
+  { key: "rarity", label: "Per rarity" },
+  { key: "floor", label: "Floor-relative" },
+];
+
+// `floor` moved by `percent`, to a hundredth of a percent. Null when the
+// result wouldn't be a usable price.
+export const floorRelativePrice = (floor: bigint, percent: number): bigint | null => {
+  const basisPoints = BigInt(Math.round(percent * 100));
+  const price = (floor * (BigInt(10000) + basisPoints)) / BigInt(10000);
+  return price > BigInt(0) ? price : null;
+};
+
+// The price `nft` goes up at under `pricing`, in octas. Null when there is
+// none: no price was set for its rarity, or there is no floor to follow.
+export const bulkPrice = (
+  nft: NFT,
+  pricing: BulkPricing,
+  floors: { [rarity: number]: bigint | null }
+): bigint | null => {
+  switch (pricing.mode) {
+    case "single":
+      return pricing.price;
+    case "rarity":
+      return pricing.prices[nft.rarity] ?? null;
+    case "floor": {
+      const floor = floors[nft.rarity];
+      return floor !== null && floor !== undefined ? floorRelativePrice(floor, pricing.percent) : null;
+    }
+  }
+};
+
+export type BulkJobStatus = "queued" | "submitting" | "done" | "failed" | "skipped";
+
+export interface BulkJob {
+  nft: NFT;
+  price: bigint; // Sale or starting price, in octas
+  status: BulkJobStatus;
+  error?: string;
+}
+
+// Jobs worth sending again: those that failed or never got their turn.
+export const retryableJobs = (jobs: BulkJob[]): BulkJob[] =>
+  jobs.filter((job) => job.status === "failed" || job.status === "skipped");
+
+export const bulkProgress = (jobs: BulkJob[]) => {
+  const count = (status: BulkJobStatus) => jobs.filter((job) => job.status === status).length;
+  const done = count("done");
+  const failed = count("failed");
+  const skipped = count("skipped");
+  return { done, failed, skipped, finished: done + failed + skipped };
+};
@@ -0,0 +1,42 @@
+import { NFT } from '../services/marketplaceClient';
+import { CheckoutStep, cartItemIssue, cartTotal, checkoutProgress, toCartItem } from './cart';
+
+const nft = (overrides: Partial<NFT> = {}): NFT => ({
+  id: 1,
+  owner: '0xa',
+  name: 'NFT',
+  description: '',
+  uri: '',
+  price: '100',
+  for_sale: true,
+  rarity: 1,
+  listed_at: 0,
+  ...overrides,
+});
+
+test('adds up the cart in octas', () => {
+  expect(cartTotal([toCartItem(nft()), toCartItem(nft({ id: 2, price: '250' }))])).toBe(BigInt(350));
+  expect(cartTotal([])).toBe(BigInt(0));
+});
+
+test('flags items that were sold, repriced or are already yours', () => {
+  const item = toCartItem(nft());
+
+  expect(cartItemIssue(item, nft(), '0xb')).toBeNull();
+  expect(cartItemIssue(item, undefined, '0xb')).toEqual({ kind: 'sold' });
+  expect(cartItemIssue(item, nft({ for_sale: false }), '0xb')).toEqual({ kind: 'sold' });
+  expect(cartItemIssue(item, nft({ owner: '0xc' }), '0xb')).toEqual({ kind: 'sold' });
+  expect(cartItemIssue(item, nft({ price: '120' }), '0xb')).toEqual({ kind: 'repriced', price: '120' });
+  expect(cartItemIssue(item, nft(), '0xA')).toEqual({ kind: 'owned' });
+});
+
+test('summarises checkout progress', () => {
+  const steps: CheckoutStep[] = [
+    { item: toCartItem(nft()), status: 'purchased' },
+    { item: toCartItem(nft({ id: 2, price: '40' })), status: 'failed', error: 'Aborted' },
+    { item: toCartItem(nft({ id: 3, price: '60' })), status: 'purchased' },
+    { item: toCartItem(nft({ id: 4 })), status: 'queued' },
+  ];
+
+  expect(checkoutProgress(steps)).toEqual({ purchased: 2, failed: 1, skipped: 0, done: 3, spent: BigInt(160) });
+});
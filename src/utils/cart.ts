@@ -0,0 +1,56 @@
+import { NFT } from "../services/marketplaceClient";
+import { sameAddress } from "./address";
+
+// What the cart remembers about a listing, as it was when it was added.
+export type CartItem = Pick<NFT, "id" | "name" | "uri" | "rarity" | "owner" | "price">;
+
+export const toCartItem = (nft: NFT): CartItem => ({
+  id: nft.id,
+  name: nft.name,
+  uri: nft.uri,
+  rarity: nft.rarity,
+  owner: nft.owner,
+  price: nft.price,
+});
+
+export const cartTotal = (items: CartItem[]): bigint =>
+  items.reduce((total, item) => total + BigInt(item.price), BigInt(0));
+
+export type CartIssue = { kind: "sold" } | { kind: "owned" } | { kind: "repriced"; price: string };
+
+// Compares a cart item with the listing as it is now. `current` is undefined
+// when the NFT couldn't be loaded at all.
+export const cartItemIssue = (item: CartItem, current: NFT | undefined, account: string | undefined): CartIssue | null => {
+  if (!current || !current.for_sale || !sameAddress(current.owner, item.owner)) return { kind: "sold" };
+  if (sameAddress(current.owner, account)) return { kind: "owned" };
+  if (current.price !== item.price) return { kind: "repriced", price: current.price };
+  return null;
+};
+
+export const cartIssueLabels: { [key in CartIssue["kind"]]: string } = {
+  sold: "No longer for sale",
+  owned: "You own this NFT",
+  repriced: "Price changed",
+};
+
+export type CheckoutStatus = "queued" | "purchasing" | "purchased" | "failed" | "skipped";
+
+export interface CheckoutStep {
+  item: CartItem;
+  status: CheckoutStatus;
+  error?: string;
+}
+
+export const checkoutProgress = (steps: CheckoutStep[]) => {
+  const count = (status: CheckoutStatus) => steps.filter((step) => step.status === status).length;
+  const purchased = count("purchased");
+  const failed = count("failed");
+  const skipped = count("skipped");
+  return {
+    purchased,
+    failed,
+    skipped,
+    done: purchased + failed + skipped,
+    spent: cartTotal(steps.filter((step) => step.status === "purchased").map((step) => step.item)),
+  };
+};
@@ -0,0 +1,76 @@
+import { aptToOctas, decodeString, encodeString, octasToApt, toBytes } from './codec';
+
+describe('decodeString', () => {
+  test('decodes 0x-prefixed hex strings', () => {
+    expect(decodeString('0x4d6f6f6e')).toBe('Moon');
+  });
+
+  test('decodes number arrays', () => {
+    expect(decodeString([77, 111, 111, 110])).toBe('Moon');
+  });
+
+  test('decodes Uint8Arrays', () => {
+    expect(decodeString(new Uint8Array([77, 111, 111, 110]))).toBe('Moon');
+  });
+
+  test('decodes multi-byte UTF-8', () => {
+    expect(decodeString(encodeString('Dragon 🐉'))).toBe('Dragon 🐉');
+  });
+
+  test('returns plain text unchanged', () => {
+    expect(decodeString('ipfs://bafy')).toBe('ipfs://bafy');
+  });
+
+  test('replaces invalid UTF-8 instead of throwing', () => {
+    expect(decodeString('0x4dff6f')).toBe('M�o');
+  });
+
+  test('treats missing values as empty', () => {
+    expect(decodeString(undefined)).toBe('');
+    expect(decodeString('0x')).toBe('');
+  });
+});
+
+test('toBytes normalizes every encoding to the same bytes', () => {
+  const expected = new Uint8Array([1, 171, 255]);
+  expect(toBytes('0x01abff')).toEqual(expected);
+  expect(toBytes([1, 171, 255])).toEqual(expected);
+  expect(toBytes(expected)).toBe(expected);
+});
+
+describe('octasToApt', () => {
+  test('formats whole and fractional amounts', () => {
+    expect(octasToApt(100000000)).toBe('1');
+    expect(octasToApt('150000000')).toBe('1.5');
+    expect(octasToApt(BigInt(1))).toBe('0.00000001');
+    expect(octasToApt(0)).toBe('0');
+  });
+
+  test('keeps precision beyond Number.MAX_SAFE_INTEGER', () => {
+    expect(octasToApt('18446744073709551615')).toBe('184467440737.09551615');
+  });
+
+  test('rejects unsafe numbers', () => {
+    expect(() => octasToApt(2 ** 60)).toThrow(RangeError);
+  });
+});
+
+describe('aptToOctas', () => {
+  test('converts decimal strings exactly', () => {
+    expect(aptToOctas('0.3')).toBe(BigInt(30000000));
+    expect(aptToOctas('0.29999999')).toBe(BigInt(29999999));
+    expect(aptToOctas('12')).toBe(BigInt(1200000000));
+    expect(aptToOctas('.5')).toBe(BigInt(50000000));
+  });
+
+  test('round-trips with octasToApt', () => {
+    expect(octasToApt(aptToOctas('184467440737.09551615'))).toBe('184467440737.09551615');
+  });
+
+  test('rejects malformed input', () => {
+    expect(() => aptToOctas('')).toThrow();
+    expect(() => aptToOctas('1e8')).toThrow();
+    expect(() => aptToOctas('-1')).toThrow();
+    expect(() => aptToOctas('0.123456789')).toThrow(/8 decimal places/);
+  });
+});
@@ -0,0 +1,72 @@
+// Shared encoding helpers for values coming back from the NFTMarketplace module.
+//
+// Depending on the endpoint (view function, resource, event) and node version a
+// `vector<u8>` may arrive as a `0x`-prefixed hex string, a plain number array or
+// a Uint8Array, so everything that renders on-chain text goes through here.
+
+export type BytesLike = string | number[] | Uint8Array;
+
+export const OCTAS_PER_APT = BigInt(100000000);
+const APT_DECIMALS = 8;
+
+const HEX_PATTERN = /^(0x)?([0-9a-fA-F]{2})*$/;
+
+export const hexToBytes = (hex: string): Uint8Array => {
+  const digits = hex.startsWith("0x") ? hex.slice(2) : hex;
+  const bytes = new Uint8Array(digits.length / 2);
+  for (let i = 0; i < digits.length; i += 2) {
+    bytes[i / 2] = parseInt(digits.substr(i, 2), 16);
+  }
+  return bytes;
+};
+
+export const toBytes = (value: BytesLike | null | undefined): Uint8Array => {
+  if (value == null) return new Uint8Array(0);
+  if (value instanceof Uint8Array) return value;
+  if (Array.isArray(value)) return Uint8Array.from(value.map((byte) => Number(byte) & 0xff));
+  if (value.startsWith("0x") && HEX_PATTERN.test(value)) return hexToBytes(value);
+  // Not hex: the node already handed us text.
+  return new TextEncoder().encode(value);
+};
+
+// Invalid UTF-8 sequences are replaced with U+FFFD instead of throwing, so one
+// malformed name never takes a whole page down.
+export const decodeString = (value: BytesLike | null | undefined): string =>
+  new TextDecoder("utf-8", { fatal: false }).decode(toBytes(value));
+
+export const encodeString = (value: string): number[] => Array.from(new TextEncoder().encode(value));
+
+export const toOctas = (value: string | number | bigint): bigint => {
+  if (typeof value === "bigint") return value;
+  if (typeof value === "number") {
+    if (!Number.isSafeInteger(value)) {
+      throw new RangeError(`Octas must be a safe integer, got ${value}`);
+    }
+    return BigInt(value);
+  }
+  return BigInt(value.trim());
+};
+
+// Formats octas as an APT decimal string without trailing zeros, e.g. 150000000 -> "1.5".
+export const octasToApt = (octas: string | number | bigint): string => {
+  const value = toOctas(octas);
+  const negative = value < BigInt(0);
+  const abs = negative ? -value : value;
+  const whole = (abs / OCTAS_PER_APT).toString();
+  const fraction = (abs % OCTAS_PER_APT).toString().padStart(APT_DECIMALS, "0").replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+};
+
+// Converts an APT decimal string to octas. Throws on anything that isn't a
+// plain non-negative decimal with at most 8 fractional digits.
+export const aptToOctas = (apt: string): bigint => {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(apt.trim());
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid APT amount: "${apt}"`);
+  }
+  const [, whole = "", fraction = ""] = match;
+  if (fraction.length > APT_DECIMALS) {
+    throw new Error(`APT amounts support at most ${APT_DECIMALS} decimal places`);
+  }
+  return BigInt(whole || "0") * OCTAS_PER_APT + BigInt(fraction.padEnd(APT_DECIMALS, "0"));
+};
@@ -0,0 +1,50 @@
+import { Collection, NFT } from '../services/marketplaceClient';
+import { PriceRecord } from '../services/priceHistory';
+import { collectionStats } from './collections';
+
+const nft = (id: number, owner: string, rarity: number, price: string, forSale: boolean): NFT => ({
+  id,
+  owner,
+  name: `#${id}`,
+  description: '',
+  uri: '',
+  price,
+  for_sale: forSale,
+  rarity,
+  listed_at: 0,
+});
+
+const record = (kind: PriceRecord['kind'], nftId: number, price: string): PriceRecord => ({
+  kind,
+  nftId,
+  price,
+  seller: '0xa',
+  buyer: kind === 'listed' ? null : '0xb',
+  timestamp: 0,
+});
+
+const collection: Collection = { id: 1, name: 'Apes', creator: '0xa', nftIds: [1, 2, 3, 4] };
+
+test('computes floor, volume, owners and rarity distribution', () => {
+  const nfts = [
+    nft(1, '0xa', 1, '300', true),
+    nft(2, '0xA', 1, '200', true),
+    nft(3, '0xb', 3, '100', false),
+    nft(9, '0xc', 4, '50', true),
+  ];
+  const records = [record('listed', 1, '300'), record('sale', 3, '100'), record('auction', 2, '250'), record('sale', 9, '999')];
+
+  expect(collectionStats(collection, nfts, records)).toEqual({
+    items: 3,
+    floorPrice: BigInt(200),
+    listedCount: 2,
+    volume: BigInt(350),
+    salesCount: 2,
+    ownerCount: 2,
+    rarityCounts: { 1: 2, 2: 0, 3: 1, 4: 0 },
+  });
+});
+
+test('has no floor when nothing is listed', () => {
+  expect(collectionStats(collection, [nft(1, '0xa', 2, '100', false)], []).floorPrice).toBeNull();
+});
@@ -0,0 +1,59 @@
+import { Collection, NFT } from "../services/marketplaceClient";
+import { PriceRecord, isSale } from "../services/priceHistory";
+import { normalizeAddress } from "./address";
+import { MAX_RARITY } from "./rarity";
+
+export interface CollectionStats {
+  items: number;
+  floorPrice: bigint | null; // In octas, null when nothing is listed
+  listedCount: number;
+  volume: bigint; // In octas, across every sale and won auction
+  salesCount: number;
+  ownerCount: number;
+  rarityCounts: { [rarity: number]: number };
+}
+
+// A collection with the stats its pages show. Data sources aggregate these
+// rather than list every NFT, so `collection` leaves out `nftIds`.
+export interface CollectionSummary {
+  collection: Omit<Collection, "nftIds">;
+  stats: CollectionStats;
+  cover: string | null; // The URI of its first NFT
+}
+
+// The NFTs of `collection` among `nfts`. Fused NFTs are burned, so some ids may
+// no longer resolve.
+export const collectionNfts = (collection: Collection, nfts: NFT[]): NFT[] => {
+  const ids = new Set(collection.nftIds);
+  return nfts.filter((nft) => ids.has(nft.id));
+};
+
+export const collectionStats = (collection: Collection, nfts: NFT[], records: PriceRecord[]): CollectionStats => {
+  const members = collectionNfts(collection, nfts);
+  const ids = new Set(collection.nftIds);
+  const listed = members.filter((nft) => nft.for_sale);
+  const sales = records.filter((record) => isSale(record) && ids.has(record.nftId));
+
+  const rarityCounts: { [rarity: number]: number } = {};
+  for (let rarity = 1; rarity <= MAX_RARITY; rarity++) rarityCounts[rarity] = 0;
+  members.forEach((nft) => (rarityCounts[nft.rarity] = (rarityCounts[nft.rarity] ?? 0) + 1));
+
+  return {
+    items: members.length,
+    floorPrice: listed.reduce<bigint | null>((floor, nft) => {
+      const price = BigInt(nft.price);
+      return floor === null || price < floor ? price : floor;
+    }, null),
+    listedCount: listed.length,
+    volume: sales.reduce((total, sale) => total + BigInt(sale.price), BigInt(0)),
+    salesCount: sales.length,
+    ownerCount: new Set(members.map((nft) => normalizeAddress(nft.owner))).size,
+    rarityCounts,
+  };
+};
+
+export const summarizeCollection = (collection: Collection, nfts: NFT[], records: PriceRecord[]): CollectionSummary => ({
+  collection: { id: collection.id, name: collection.name, creator: collection.creator },
+  stats: collectionStats(collection, nfts, records),
+  cover: collectionNfts(collection, nfts)[0]?.uri ?? null,
+});
@@ -0,0 +1,25 @@
+import { clockOffsetMs, formatCountdown, isAuctionEnded, isEndingSoon, timeLeftMs } from './countdown';
+
+test('formats countdowns', () => {
+  expect(formatCountdown(0)).toBe('00:00:00');
+  expect(formatCountdown((3 * 3600 + 15 * 60 + 42) * 1000 + 999)).toBe('03:15:42');
+  expect(formatCountdown((2 * 86400 + 3 * 3600 + 15 * 60) * 1000)).toBe('2d 03h 15m');
+});
+
+test('ends auctions slightly before their end time', () => {
+  const end = 1700000000;
+  expect(isAuctionEnded(end, end * 1000 - 5000)).toBe(false);
+  expect(isAuctionEnded(end, end * 1000 - 1000)).toBe(true);
+  expect(timeLeftMs(end, end * 1000 + 5000)).toBe(0);
+});
+
+test('flags auctions ending within the hour', () => {
+  const end = 1700000000;
+  expect(isEndingSoon(end, (end - 30 * 60) * 1000)).toBe(true);
+  expect(isEndingSoon(end, (end - 2 * 3600) * 1000)).toBe(false);
+  expect(isEndingSoon(end, end * 1000)).toBe(false);
+});
+
+test('measures the clock offset from the middle of the round trip', () => {
+  expect(clockOffsetMs('1700000010000000', 1700000000000, 1700000000200)).toBe(9900);
+});
@@ -0,0 +1,38 @@
+// Auctions count as ending soon within this window.
+export const ENDING_SOON_MS = 60 * 60 * 1000;
+
+// The chain closes an auction at the first block at or after `end_time`, and
+// our synced clock can trail the next block slightly. Bidding is shut off this
+// much early so the UI never offers a bid the chain would reject.
+export const END_SAFETY_MARGIN_MS = 2000;
+
+export const timeLeftMs = (endTimeUnix: number, nowMs: number) => Math.max(0, endTimeUnix * 1000 - nowMs);
+
+export const isAuctionEnded = (endTimeUnix: number, nowMs: number) =>
+  nowMs >= endTimeUnix * 1000 - END_SAFETY_MARGIN_MS;
+
+// Whether the chain itself considers the auction over, without the bidding
+// margin. Settling any earlier would abort.
+export const hasAuctionClosed = (endTimeUnix: number, nowMs: number) => nowMs >= endTimeUnix * 1000;
+
+export const isEndingSoon = (endTimeUnix: number, nowMs: number) =>
+  !isAuctionEnded(endTimeUnix, nowMs) && timeLeftMs(endTimeUnix, nowMs) <= ENDING_SOON_MS;
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+// "2d 03h 15m" for long auctions, "03:15:42" for the last day.
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${pad(hours)}h ${pad(minutes)}m`;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+// How far the local clock is behind the chain, from a ledger timestamp (in
+// microseconds) fetched between `sentAt` and `receivedAt`. Assumes the node
+// read its clock halfway through the round trip.
+export const clockOffsetMs = (ledgerTimestampUs: string, sentAt: number, receivedAt: number): number =>
+  Math.round(Number(BigInt(ledgerTimestampUs) / BigInt(1000)) - (sentAt + receivedAt) / 2);
@@ -0,0 +1,14 @@
+import { describeFloorDifference, floorDifferencePercent } from './floor';
+
+test('measures the distance from the floor in percent', () => {
+  expect(floorDifferencePercent('150', '100')).toBe(50);
+  expect(floorDifferencePercent(BigInt(75), '100')).toBe(-25);
+  expect(floorDifferencePercent('1001', '1000')).toBe(0.1);
+  expect(floorDifferencePercent('100', '0')).toBe(0);
+});
+
+test('describes the comparison for buyers', () => {
+  expect(describeFloorDifference('150', '100', 'Rare')).toBe('50% above the Rare floor.');
+  expect(describeFloorDifference('80', '100', 'Rare')).toBe('20% below the Rare floor.');
+  expect(describeFloorDifference('100', '100', 'Rare')).toBe('At the Rare floor.');
+});
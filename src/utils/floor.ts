@@ -0,0 +1,17 @@
+import { Octas } from "./amount";
+import { toOctas } from "./codec";
+
+// How far `price` is above (positive) or below (negative) `floor`, in percent
+// rounded to one decimal. Computed in octas so large prices stay exact.
+export const floorDifferencePercent = (price: Octas, floor: Octas): number => {
+  const floorOctas = toOctas(floor);
+  if (floorOctas === BigInt(0)) return 0;
+  const permille = ((toOctas(price) - floorOctas) * BigInt(1000)) / floorOctas;
+  return Number(permille) / 10;
+};
+
+export const describeFloorDifference = (price: Octas, floor: Octas, rarityLabel: string): string => {
+  const percent = floorDifferencePercent(price, floor);
+  if (percent === 0) return `At the ${rarityLabel} floor.`;
+  return `${Math.abs(percent)}% ${percent > 0 ? "above" : "below"} the ${rarityLabel} floor.`;
+};
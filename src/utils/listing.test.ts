@@ -0,0 +1,42 @@
+import { Auction, NFT } from '../services/marketplaceClient';
+import { canCancelAuction, listingState } from './listing';
+
+const nft = (forSale: boolean): NFT => ({
+  id: 7,
+  owner: '0xa',
+  name: 'Seven',
+  description: '',
+  uri: '',
+  price: '100',
+  for_sale: forSale,
+  rarity: 1,
+  listed_at: 0,
+});
+
+const auction = (highestBidder: string): Auction => ({
+  id: 1,
+  nftId: 7,
+  seller: '0xa',
+  startingPrice: '100',
+  currentBid: highestBidder === '0x0' ? '0' : '150',
+  highestBidder,
+  endTime: 1000,
+  nftDetails: { name: 'Seven', description: '', uri: '', rarity: 1 },
+});
+
+const running = 500 * 1000;
+const ended = 2000 * 1000;
+
+test('tells listed, auctioned and unlisted NFTs apart', () => {
+  expect(listingState(nft(true))).toBe('listed');
+  expect(listingState(nft(false), auction('0x0'))).toBe('auctioned');
+  expect(listingState(nft(false), null)).toBe('unlisted');
+});
+
+test('lets only the seller cancel a running auction without bids', () => {
+  expect(canCancelAuction(auction('0x0'), '0xA', running)).toBe(true);
+  expect(canCancelAuction(auction('0xb'), '0xa', running)).toBe(false);
+  expect(canCancelAuction(auction('0x0'), '0xb', running)).toBe(false);
+  expect(canCancelAuction(auction('0x0'), '0xa', ended)).toBe(false);
+  expect(canCancelAuction(auction('0x0'), undefined, running)).toBe(false);
+});
@@ -0,0 +1,20 @@
+import { Auction, NFT } from "../services/marketplaceClient";
+import { sameAddress } from "./address";
+import { isAuctionEnded } from "./countdown";
+import { hasBids } from "./settlement";
+
+export type ListingState = "listed" | "auctioned" | "unlisted";
+
+// An NFT can be on the market or in an auction, never both; the contract
+// rejects listing it again either way.
+export const listingState = (nft: NFT, auction?: Auction | null): ListingState =>
+  auction ? "auctioned" : nft.for_sale ? "listed" : "unlisted";
+
+// Sellers can pull an auction until someone bids on it. Ended auctions are
+// settled instead, which also returns an unsold NFT.
+export const canCancelAuction = (auction: Auction, account: string | undefined, nowMs: number): boolean =>
+  sameAddress(auction.seller, account) && !hasBids(auction) && !isAuctionEnded(auction.endTime, nowMs);
+
+// The open auction for each NFT, for pages that list NFTs rather than auctions.
+export const auctionsByNft = (auctions: Auction[] | undefined): Map<number, Auction> =>
+  new Map((auctions ?? []).map((auction) => [auction.nftId, auction]));
@@ -0,0 +1,42 @@
+import { Offer } from '../services/marketplaceClient';
+import { bestOffer, incomingOffers, offerBlockedReason, offerStatus, outgoingOffers } from './offers';
+
+const offer = (id: number, amount: string, changes: Partial<Offer> = {}): Offer => ({
+  id,
+  nftId: 7,
+  offerer: '0xb',
+  owner: '0xa',
+  amount,
+  counterAmount: null,
+  expiresAt: 1000,
+  escrowed: true,
+  nftDetails: { name: 'Seven', uri: '', rarity: 1 },
+  ...changes,
+});
+
+test('reports open, countered and expired offers', () => {
+  expect(offerStatus(offer(1, '100'), 500 * 1000)).toBe('open');
+  expect(offerStatus(offer(1, '100', { counterAmount: '150' }), 500 * 1000)).toBe('countered');
+  expect(offerStatus(offer(1, '100', { counterAmount: '150' }), 1000 * 1000)).toBe('expired');
+});
+
+test('splits offers into incoming and outgoing, newest first', () => {
+  const offers = [offer(1, '100'), offer(2, '200', { offerer: '0xc' }), offer(3, '300', { owner: '0xc', offerer: '0xA' })];
+
+  expect(incomingOffers(offers, '0xA').map((o) => o.id)).toEqual([2, 1]);
+  expect(outgoingOffers(offers, '0xa').map((o) => o.id)).toEqual([3]);
+  expect(incomingOffers(offers, undefined)).toEqual([]);
+});
+
+test('picks the highest offer that has not expired', () => {
+  const offers = [offer(1, '100'), offer(2, '900', { expiresAt: 10 }), offer(3, '300'), offer(4, '500', { nftId: 8 })];
+
+  expect(bestOffer(offers, 7, 500 * 1000)?.id).toBe(3);
+  expect(bestOffer(offers, 9, 500 * 1000)).toBeNull();
+});
+
+test('blocks offers on your own NFT or without a wallet', () => {
+  expect(offerBlockedReason('0xa', '0xA')).toBe('You own this NFT.');
+  expect(offerBlockedReason('0xa', undefined)).toBe('Connect your wallet to make an offer.');
+  expect(offerBlockedReason('0xa', '0xb')).toBeNull();
+});
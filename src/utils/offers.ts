@@ -0,0 +1,44 @@
+import { Offer } from "../services/marketplaceClient";
+import { compareOctas } from "./amount";
+import { sameAddress } from "./address";
+
+export type OfferStatus = "open" | "countered" | "expired";
+
+export const OFFER_DURATIONS = [
+  { label: "1 day", seconds: 24 * 60 * 60 },
+  { label: "3 days", seconds: 3 * 24 * 60 * 60 },
+  { label: "7 days", seconds: 7 * 24 * 60 * 60 },
+  { label: "30 days", seconds: 30 * 24 * 60 * 60 },
+];
+
+export const isOfferExpired = (offer: Offer, nowMs: number) => nowMs >= offer.expiresAt * 1000;
+
+export const offerStatus = (offer: Offer, nowMs: number): OfferStatus =>
+  isOfferExpired(offer, nowMs) ? "expired" : offer.counterAmount !== null ? "countered" : "open";
+
+export const offerStatusLabels: { [status in OfferStatus]: string } = {
+  open: "Open",
+  countered: "Countered",
+  expired: "Expired",
+};
+
+// Offers on NFTs `account` owns, newest first.
+export const incomingOffers = (offers: Offer[], account: string | undefined) =>
+  offers.filter((offer) => sameAddress(offer.owner, account)).sort((a, b) => b.id - a.id);
+
+// Offers `account` has made, newest first.
+export const outgoingOffers = (offers: Offer[], account: string | undefined) =>
+  offers.filter((offer) => sameAddress(offer.offerer, account)).sort((a, b) => b.id - a.id);
+
+// The highest offer on `nftId` that can still be accepted.
+export const bestOffer = (offers: Offer[], nftId: number, nowMs: number): Offer | null =>
+  offers
+    .filter((offer) => offer.nftId === nftId && !isOfferExpired(offer, nowMs))
+    .reduce<Offer | null>((best, offer) => (!best || compareOctas(offer.amount, best.amount) > 0 ? offer : best), null);
+
+// Why `account` can't make an offer on an NFT owned by `owner`, if it can't.
+export const offerBlockedReason = (owner: string, account: string | undefined): string | null => {
+  if (!account) return "Connect your wallet to make an offer.";
+  if (sameAddress(owner, account)) return "You own this NFT.";
+  return null;
+};
@@ -0,0 +1,36 @@
+import { Auction } from '../services/marketplaceClient';
+import { hasBids, settlementAction } from './settlement';
+
+const auction = (highestBidder: string): Auction => ({
+  id: 1,
+  nftId: 7,
+  seller: '0xa',
+  startingPrice: '100',
+  currentBid: highestBidder === '0x0' ? '0' : '150',
+  highestBidder,
+  endTime: 1000,
+  nftDetails: { name: 'Seven', description: '', uri: '', rarity: 1 },
+});
+
+const ended = 2000 * 1000;
+
+test('detects auctions without bids', () => {
+  expect(hasBids(auction('0x0'))).toBe(false);
+  expect(hasBids(auction('0xb'))).toBe(true);
+});
+
+test('offers settlement to the seller and the winner once ended', () => {
+  expect(settlementAction(auction('0xb'), '0xa', ended)).toBe('collect');
+  expect(settlementAction(auction('0x0'), '0xA', ended)).toBe('reclaim');
+  expect(settlementAction(auction('0xb'), '0x0b', ended)).toBe('claim');
+  expect(settlementAction(auction('0xb'), '0xc', ended)).toBeNull();
+});
+
+test('offers nothing while the auction is running', () => {
+  expect(settlementAction(auction('0xb'), '0xa', 500 * 1000)).toBeNull();
+});
+
+test('offers nothing until the chain has closed the auction', () => {
+  expect(settlementAction(auction('0xb'), '0xa', 1000 * 1000 - 1)).toBeNull();
+  expect(settlementAction(auction('0xb'), '0xa', 1000 * 1000)).toBe('collect');
+});
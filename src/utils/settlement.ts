@@ -0,0 +1,29 @@
+import { Auction } from "../services/marketplaceClient";
+import { sameAddress } from "./address";
+import { hasAuctionClosed } from "./countdown";
+
+export type SettlementAction = "collect" | "claim" | "reclaim";
+
+// The contract leaves `highest_bidder` at @0x0 until the first bid.
+export const hasBids = (auction: Auction) => !/^0x0*$/.test(auction.highestBidder);
+
+// What `account` can do to settle `auction`, if anything. Only the seller and
+// the highest bidder may settle an auction, and only once it has closed.
+export const settlementAction = (auction: Auction, account: string | undefined, nowMs: number): SettlementAction | null => {
+  if (!account || !hasAuctionClosed(auction.endTime, nowMs)) return null;
+  if (sameAddress(auction.seller, account)) return hasBids(auction) ? "collect" : "reclaim";
+  if (hasBids(auction) && sameAddress(auction.highestBidder, account)) return "claim";
+  return null;
+};
+
+export const settlementLabels: { [action in SettlementAction]: string } = {
+  collect: "Finalize & collect",
+  claim: "Claim NFT",
+  reclaim: "Reclaim NFT",
+};
+
+export const settlementDescriptions: { [action in SettlementAction]: string } = {
+  collect: "Your auction has ended. Finalize it to receive the winning bid.",
+  claim: "You won this auction. Claim the NFT to add it to your collection.",
+  reclaim: "Your auction ended without bids. Reclaim the NFT to return it to your collection.",
+};
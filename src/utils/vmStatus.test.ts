@@ -0,0 +1,27 @@
+import { parseMoveAbort } from './vmStatus';
+
+test('parses named abort codes', () => {
+  expect(parseMoveAbort('Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins to complete transaction')).toEqual({
+    address: '0x1',
+    module: 'coin',
+    code: 0x10006,
+    name: 'EINSUFFICIENT_BALANCE',
+    description: 'Not enough coins to complete transaction',
+  });
+});
+
+test('parses bare abort codes', () => {
+  expect(parseMoveAbort('Move abort in 0xabc::NFTMarketplace: 0x3')).toEqual({
+    address: '0xabc',
+    module: 'NFTMarketplace',
+    code: 3,
+    name: undefined,
+    description: undefined,
+  });
+});
+
+test('returns null for non-abort statuses', () => {
+  expect(parseMoveAbort('Executed successfully')).toBeNull();
+  expect(parseMoveAbort('Out of gas')).toBeNull();
+  expect(parseMoveAbort(undefined)).toBeNull();
+});
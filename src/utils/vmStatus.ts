@@ -0,0 +1,27 @@
+export interface MoveAbort {
+  address: string;
+  module: string;
+  code: number;
+  name?: string; // e.g. E_NOT_OWNER, when the module declares error constants
+  description?: string;
+}
+
+// Matches both "Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): ..." and
+// the older "Move abort in 0xabc::NFTMarketplace: 0x3" format.
+const MOVE_ABORT_PATTERN = /Move abort in (0x[0-9a-fA-F]+)::(\w+): (?:(\w+)\((0x[0-9a-fA-F]+|\d+)\)|(0x[0-9a-fA-F]+|\d+))(?::\s*(.*))?/;
+
+export const parseMoveAbort = (vmStatus: string | null | undefined): MoveAbort | null => {
+  if (!vmStatus) return null;
+  const match = MOVE_ABORT_PATTERN.exec(vmStatus);
+  if (!match) return null;
+
+  const [, address, module, name, namedCode, bareCode, description] = match;
+  const rawCode = namedCode ?? bareCode;
+  return {
+    address,
+    module,
+    code: rawCode.startsWith("0x") ? parseInt(rawCode, 16) : parseInt(rawCode, 10),
+    name,
+    description: description?.trim() || undefined,
+  };
+};
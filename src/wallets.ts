@@ -0,0 +1,23 @@
+import { AvailableWallets, DappConfig, Wallet } from "@aptos-labs/wallet-adapter-react";
+import { PetraWallet } from "petra-plugin-wallet-adapter";
+import { isTMA } from "@telegram-apps/bridge";
+import { DEFAULT_NETWORK, walletNetworkName } from "./config";
+
+// Inside a Telegram mini app only Mizu can connect: it signs through the
+// Telegram bridge instead of a browser extension.
+export const isTelegramMiniApp = isTMA("simple");
+
+// Legacy (non AIP-62) wallet plugins. Standard wallets such as Nightly or Pontem
+// register themselves and need no entry here.
+export const walletPlugins: Wallet[] = isTelegramMiniApp ? [] : [new PetraWallet()];
+
+// An empty list lets every installed AIP-62 wallet through.
+export const optInWallets: AvailableWallets[] = isTelegramMiniApp ? ["Mizu Wallet"] : [];
+
+export const dappConfig: DappConfig = {
+  network: walletNetworkName(DEFAULT_NETWORK) as DappConfig["network"],
+  mizuwallet: {
+    manifestURL: process.env.REACT_APP_MIZU_MANIFEST_URL || `${window.location.origin}/manifest.json`,
+    appId: process.env.REACT_APP_MIZU_APP_ID,
+  },
+};